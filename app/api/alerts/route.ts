@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAlerts, markAlertsRead } from "@/lib/alerts";
+
+// In-app notifications across portfolios, newest first; ?unread=1 for unread only
+export async function GET(request: NextRequest) {
+  const unread = request.nextUrl.searchParams.get("unread") === "1";
+  const portfolioId = request.nextUrl.searchParams.get("portfolioId") || undefined;
+  return NextResponse.json({ success: true, alerts: await listAlerts({ portfolioId, unread }) });
+}
+
+// { ids?: string[] } marks those alerts read, or all of them without ids
+export async function PATCH(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const ids = body?.ids;
+  if (ids !== undefined && !(Array.isArray(ids) && ids.every((id) => typeof id === "string"))) {
+    return NextResponse.json({ success: false, error: "ids must be an array of alert ids" }, { status: 400 });
+  }
+
+  const changed = await markAlertsRead(ids);
+  return NextResponse.json({ success: true, changed });
+}
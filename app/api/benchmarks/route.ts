@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { BENCHMARKS } from "@/lib/benchmark";
+
+export async function GET() {
+  return NextResponse.json({ success: true, benchmarks: BENCHMARKS });
+}
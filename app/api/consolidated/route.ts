@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeHoldings } from "@/lib/analysis";
+import { consolidate, UNTAGGED_OWNER } from "@/lib/consolidate";
+import { getPortfolioStore, type Portfolio } from "@/lib/storage";
+
+// ?ids=a,b picks saved portfolios (all of them by default); ?owner= keeps one owner's accounts
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const ids = searchParams.get("ids")?.split(",").map((id) => id.trim()).filter(Boolean);
+  const owner = searchParams.get("owner")?.trim();
+
+  const store = getPortfolioStore();
+  const summaries = (await store.list()).filter(
+    (p) => (!ids?.length || ids.includes(p.id)) && (!owner || (p.owner ?? UNTAGGED_OWNER) === owner)
+  );
+  if (!summaries.length) {
+    return NextResponse.json({ success: false, error: "No saved portfolios match" }, { status: 404 });
+  }
+
+  try {
+    const portfolios = (await Promise.all(summaries.map((p) => store.get(p.id)))).filter(
+      (p): p is Portfolio => p !== null
+    );
+    const accounts = await Promise.all(
+      portfolios.map(async (portfolio) => ({
+        portfolio,
+        analysis: await analyzeHoldings(portfolio.holdings, portfolio.transactions, portfolio.sectorOverrides),
+      }))
+    );
+    return NextResponse.json({ success: true, consolidated: consolidate(accounts) });
+  } catch (err) {
+    console.error("Error consolidating portfolios:", err);
+    return NextResponse.json({ success: false, error: "Failed to consolidate portfolios" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { POST } from "./route";
+
+const holding = {
+  name: "Infosys",
+  code: "INFY",
+  sector: "IT",
+  quantity: 10,
+  purchasePrice: 1400,
+  investment: 14000,
+  currentPrice: 1520.4,
+  updatedPresentValue: 15204,
+  updatedGainLoss: 1204,
+};
+
+const post = (body: unknown) =>
+  POST(new NextRequest("http://localhost/api/export", { method: "POST", body: JSON.stringify(body) }));
+
+describe("POST /api/export", () => {
+  it("renders the HTML report", async () => {
+    const res = await post({ format: "html", name: "Main", holdings: [holding] });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("Infosys");
+  });
+
+  it("skips a holding whose sector is not a string instead of failing the report", async () => {
+    const res = await post({
+      format: "html",
+      holdings: [holding, { ...holding, code: "TCS", name: "TCS", sector: 42 }],
+    });
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain("Infosys");
+    expect(html).not.toContain("TCS");
+  });
+
+  it("rejects holdings that are all malformed", async () => {
+    const res = await post({ format: "html", holdings: [{ ...holding, sector: 42 }, { ...holding, name: 7 }] });
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects a body that is not an object", async () => {
+    expect((await post(null)).status).toBe(400);
+  });
+});
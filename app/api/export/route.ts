@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EXPORT_FORMATS, exportPortfolio, type ExportFormat, type ExportHolding } from "@/lib/export";
+
+interface ExportBody {
+  format?: ExportFormat;
+  name?: string;
+  holdings?: ExportHolding[];
+  realizedGainLoss?: number;
+  xirr?: number | null;
+}
+
+const finite = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+// Exports the rows the client is showing, live prices and sector filter included, so the file
+// matches the screen
+export async function POST(request: NextRequest) {
+  let body: ExportBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ success: false, error: "Request body must be a JSON object" }, { status: 400 });
+  }
+
+  const format = body.format ?? "xlsx";
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ success: false, error: `Unsupported format: ${format}` }, { status: 400 });
+  }
+
+  const holdings = (Array.isArray(body.holdings) ? body.holdings : []).filter(
+    (h) =>
+      h &&
+      typeof h.code === "string" &&
+      typeof h.name === "string" &&
+      // the report escapes it as text
+      (h.sector === undefined || h.sector === null || typeof h.sector === "string") &&
+      (h.realizedGainLoss === undefined || h.realizedGainLoss === null || finite(h.realizedGainLoss)) &&
+      [h.quantity, h.purchasePrice, h.investment, h.currentPrice, h.updatedPresentValue, h.updatedGainLoss].every(finite)
+  );
+  if (!holdings.length) {
+    return NextResponse.json({ success: false, error: "holdings must be a non-empty array" }, { status: 400 });
+  }
+
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : "Portfolio";
+  const generatedAt = new Date().toISOString();
+
+  try {
+    const file = exportPortfolio(format, {
+      name,
+      generatedAt,
+      holdings,
+      realizedGainLoss: finite(body.realizedGainLoss) ? body.realizedGainLoss : undefined,
+      xirr: finite(body.xirr) ? body.xirr : null,
+    });
+    const slug = name.replace(/[^\w-]+/g, "-").replace(/^-|-$/g, "") || "portfolio";
+    const filename = `${slug}-${generatedAt.slice(0, 10)}.${file.extension}`;
+    return new NextResponse(typeof file.body === "string" ? file.body : new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `${format === "html" ? "inline" : "attachment"}; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    console.error("Error exporting portfolio:", err);
+    return NextResponse.json({ success: false, error: "Failed to export the portfolio" }, { status: 500 });
+  }
+}
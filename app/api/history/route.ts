@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  fetchStockHistory,
+  HISTORY_INTERVALS,
+  HISTORY_RANGES,
+  QuoteError,
+  type HistoryInterval,
+  type HistoryRange,
+} from "@/lib/quotes";
+
+// ?symbol=INFY&range=1y&interval=1d -> { symbol, provider, candles: [{ date, open, high, low, close, volume }] }
+export async function GET(request: NextRequest) {
+  const search = request.nextUrl.searchParams;
+  const symbol = search.get("symbol")?.trim().toUpperCase();
+  const range = (search.get("range") || "1y") as HistoryRange;
+  const interval = (search.get("interval") || "1d") as HistoryInterval;
+
+  if (!symbol) {
+    return NextResponse.json({ success: false, error: "symbol is required" }, { status: 400 });
+  }
+  if (!HISTORY_RANGES.includes(range)) {
+    return NextResponse.json(
+      { success: false, error: `range must be one of ${HISTORY_RANGES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (!HISTORY_INTERVALS.includes(interval)) {
+    return NextResponse.json(
+      { success: false, error: `interval must be one of ${HISTORY_INTERVALS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const history = await fetchStockHistory(symbol, { range, interval });
+    return NextResponse.json({ success: true, range, interval, ...history });
+  } catch (err) {
+    if (err instanceof QuoteError) {
+      const status = err.reason === "not-found" ? 404 : 502;
+      return NextResponse.json({ success: false, error: err.message, reason: err.reason }, { status });
+    }
+    console.error("Error fetching history:", err);
+    return NextResponse.json({ success: false, error: "Failed to fetch price history" }, { status: 500 });
+  }
+}
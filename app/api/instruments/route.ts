@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImportError } from "@/lib/import";
+import { getInstruments, importInstruments, lookupInstrument } from "@/lib/instruments";
+
+// ?isin=&code=&name= looks one instrument up; without a query, lists the known sectors
+export async function GET(request: NextRequest) {
+  const search = request.nextUrl.searchParams;
+  const query = {
+    isin: search.get("isin") || undefined,
+    code: search.get("code") || undefined,
+    name: search.get("name") || undefined,
+  };
+
+  if (query.isin || query.code || query.name) {
+    const instrument = lookupInstrument(query);
+    return instrument
+      ? NextResponse.json({ success: true, instrument })
+      : NextResponse.json({ success: false, error: "Instrument not found" }, { status: 404 });
+  }
+
+  const instruments = getInstruments();
+  const sectors = Array.from(new Set(instruments.flatMap((i) => (i.sector ? [i.sector] : [])))).sort();
+  return NextResponse.json({ success: true, count: instruments.length, sectors });
+}
+
+// Multipart upload of an NSE (EQUITY_L.csv) or BSE equity list, merged into the master
+export async function POST(request: NextRequest) {
+  const file = (await request.formData().catch(() => null))?.get("file");
+  if (!(file instanceof File) || !/\.csv$/i.test(file.name)) {
+    return NextResponse.json({ success: false, error: "Upload a .csv equity list as `file`" }, { status: 400 });
+  }
+
+  try {
+    const summary = await importInstruments(await file.text());
+    return NextResponse.json({ success: true, ...summary });
+  } catch (err) {
+    if (err instanceof ImportError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 400 });
+    }
+    console.error("Error importing instruments:", err);
+    return NextResponse.json({ success: false, error: "Failed to import instruments" }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getHolidays, marketStatus } from "@/lib/market";
+
+// Whether NSE is in session right now, and the holidays still to come
+export async function GET() {
+  const status = marketStatus();
+  return NextResponse.json({
+    success: true,
+    status,
+    holidays: getHolidays().filter((h) => h.date >= status.date),
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteRule, setRuleEnabled } from "@/lib/alerts";
+
+type Params = { params: Promise<{ id: string; ruleId: string }> };
+
+const notFound = () => NextResponse.json({ success: false, error: "Rule not found" }, { status: 404 });
+
+// { enabled: boolean }
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { id, ruleId } = await params;
+  const body = await request.json().catch(() => null);
+  if (typeof body?.enabled !== "boolean") {
+    return NextResponse.json({ success: false, error: "enabled must be true or false" }, { status: 400 });
+  }
+
+  const rule = await setRuleEnabled(id, ruleId, body.enabled);
+  return rule ? NextResponse.json({ success: true, rule }) : notFound();
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const { id, ruleId } = await params;
+  return (await deleteRule(id, ruleId)) ? NextResponse.json({ success: true }) : notFound();
+}
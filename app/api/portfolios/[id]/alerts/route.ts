@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addRule, listAlerts, listRules, readRuleCondition } from "@/lib/alerts";
+import { getPortfolioStore } from "@/lib/storage";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+
+// The portfolio's rules and the alerts they have raised, newest first
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!(await getPortfolioStore().get(id))) return notFound();
+
+  const [rules, alerts] = await Promise.all([listRules(id), listAlerts({ portfolioId: id })]);
+  return NextResponse.json({ success: true, rules, alerts });
+}
+
+// { kind: "price", code, op, price } | { kind: "dayChange", code?, direction, percent } |
+// { kind: "portfolioPnl", op, percent }
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!(await getPortfolioStore().get(id))) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const condition = readRuleCondition(body);
+  if (!condition.ok) {
+    return NextResponse.json({ success: false, error: condition.error }, { status: 400 });
+  }
+
+  const rule = await addRule(id, condition.value);
+  return NextResponse.json({ success: true, rule }, { status: 201 });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { compareToBenchmark, findBenchmark } from "@/lib/benchmark";
+import { fetchHistory, QuoteError, rangeCovering } from "@/lib/quotes";
+import { getPortfolioStore, getSnapshotStore, SNAPSHOT_RANGES, snapshotRangeStart } from "@/lib/storage";
+
+// ?index=nifty50&range=1M|3M|1Y|ALL compares the portfolio's snapshots with the index over the same dates
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!(await getPortfolioStore().get(id))) {
+    return NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+  }
+
+  const search = request.nextUrl.searchParams;
+  const benchmark = findBenchmark(search.get("index") || "nifty50");
+  if (!benchmark) {
+    return NextResponse.json({ success: false, error: `Unknown index: ${search.get("index")}` }, { status: 400 });
+  }
+  const range = (search.get("range") || "ALL").toUpperCase();
+  if (!SNAPSHOT_RANGES.includes(range)) {
+    return NextResponse.json({ success: false, error: `Unknown range: ${range}` }, { status: 400 });
+  }
+
+  const snapshots = await getSnapshotStore().list(id, snapshotRangeStart(range));
+  if (snapshots.length < 2) {
+    return NextResponse.json({ success: true, comparison: null });
+  }
+
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const history = await fetchHistory(benchmark.symbol, {
+      range: rangeCovering(snapshots[0].date, today),
+      interval: "1d",
+    });
+    return NextResponse.json({
+      success: true,
+      comparison: compareToBenchmark(benchmark, snapshots, history.candles),
+    });
+  } catch (err) {
+    if (err instanceof QuoteError) {
+      return NextResponse.json(
+        { success: false, error: `No history for ${benchmark.label}: ${err.message}` },
+        { status: 502 }
+      );
+    }
+    console.error("Error comparing with benchmark:", err);
+    return NextResponse.json({ success: false, error: "Failed to compare with benchmark" }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPortfolioStore } from "@/lib/storage";
+
+type Params = { params: Promise<{ id: string; actionId: string }> };
+
+// Only actions entered in the app have an id; imported ones go away by re-importing the sheet
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const { id, actionId } = await params;
+  const portfolio = await getPortfolioStore().get(id);
+  const transactions = portfolio?.transactions.filter((t) => t.id !== actionId);
+  if (!portfolio || !transactions || transactions.length === portfolio.transactions.length) {
+    return NextResponse.json({ success: false, error: "Corporate action not found" }, { status: 404 });
+  }
+
+  await getPortfolioStore().update(id, { transactions });
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { adjustmentConflict, isCorporateAction, openingBalances, readCorporateAction } from "@/lib/ledger";
+import { getPortfolioStore } from "@/lib/storage";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+
+// Dividends, splits, bonuses and rights issues in the portfolio's ledger, imported or entered here, oldest first
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const portfolio = await getPortfolioStore().get(id);
+  if (!portfolio) return notFound();
+
+  const actions = portfolio.transactions
+    .filter(isCorporateAction)
+    .sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+  return NextResponse.json({ success: true, actions });
+}
+
+// { type: "DIVIDEND", code, date, amount? | price? } | { type: "SPLIT" | "BONUS", code, date, ratio } |
+// { type: "RIGHTS", code, date, price, quantity? | ratio? }
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const portfolio = await getPortfolioStore().get(id);
+  if (!portfolio) return notFound();
+
+  const action = readCorporateAction(await request.json().catch(() => null));
+  if (!action.ok) {
+    return NextResponse.json({ success: false, error: action.error }, { status: 400 });
+  }
+
+  const conflict = adjustmentConflict(action.value, [
+    ...openingBalances(portfolio.holdings),
+    ...portfolio.transactions,
+  ]);
+  if (conflict) {
+    return NextResponse.json({ success: false, error: conflict }, { status: 400 });
+  }
+
+  const entered = { ...action.value, id: randomUUID() };
+  await getPortfolioStore().update(id, { transactions: [...portfolio.transactions, entered] });
+  return NextResponse.json({ success: true, action: entered }, { status: 201 });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAlerts, type Alert } from "@/lib/alerts";
+import { analyzeHoldings, snapshotOf } from "@/lib/analysis";
+import { problemIssues } from "@/lib/ledger";
+import { isTradingDay, istTime, SKIP_NON_TRADING_DAYS } from "@/lib/market";
+import { timeWeightedReturn } from "@/lib/returns";
+import { getPortfolioStore, getSnapshotStore } from "@/lib/storage";
+
+// Re-prices a saved portfolio, records the day's snapshot and checks its alert rules; the response has
+// the same shape as POST /api/quotes plus the alerts this refresh raised
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const portfolio = await getPortfolioStore().get(id);
+  if (!portfolio) {
+    return NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+  }
+
+  try {
+    const { problems, ...analysis } = await analyzeHoldings(
+      portfolio.holdings,
+      portfolio.transactions,
+      portfolio.sectorOverrides
+    );
+    // a weekend or holiday snapshot would only repeat the last session's closes
+    const tradingDay = !SKIP_NON_TRADING_DAYS || isTradingDay(istTime().date);
+    if (analysis.validStocks > 0 && tradingDay) {
+      await getSnapshotStore().record(snapshotOf(portfolio.id, { problems, ...analysis }));
+    }
+    analysis.returns.twr = timeWeightedReturn(await getSnapshotStore().list(portfolio.id));
+
+    // a failing rule check shouldn't cost the user their prices
+    let alerts: Alert[] = [];
+    if (analysis.validStocks > 0) {
+      alerts = await checkAlerts(portfolio.id, analysis.data).catch((err) => {
+        console.error("Error checking alerts:", err);
+        return [];
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      portfolio: { id: portfolio.id, name: portfolio.name },
+      format: { id: "saved", label: portfolio.name },
+      mapping: null,
+      issues: problemIssues(problems),
+      ...analysis,
+      alerts,
+    });
+  } catch (err) {
+    console.error("Error pricing portfolio:", err);
+    return NextResponse.json({ success: false, error: "Failed to price portfolio" }, { status: 500 });
+  }
+}
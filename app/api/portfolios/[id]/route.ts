@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteRulesForPortfolio } from "@/lib/alerts";
+import { getPortfolioStore, getSnapshotStore, readPortfolioInput } from "@/lib/storage";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const portfolio = await getPortfolioStore().get(id);
+  return portfolio ? NextResponse.json({ success: true, portfolio }) : notFound();
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const result = readPortfolioInput(await request.json().catch(() => null), true);
+  if (!result.ok) return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+
+  const portfolio = await getPortfolioStore().update(id, result.value);
+  return portfolio ? NextResponse.json({ success: true, portfolio }) : notFound();
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const deleted = await getPortfolioStore().delete(id);
+  if (deleted) {
+    await getSnapshotStore().deleteForPortfolio(id);
+    await deleteRulesForPortfolio(id);
+  }
+  return deleted ? NextResponse.json({ success: true }) : notFound();
+}
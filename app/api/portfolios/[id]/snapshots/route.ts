@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPortfolioStore, getSnapshotStore, SNAPSHOT_RANGES, snapshotRangeStart } from "@/lib/storage";
+
+// ?range=1M|3M|1Y|ALL (default ALL)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!(await getPortfolioStore().get(id))) {
+    return NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+  }
+
+  const range = (request.nextUrl.searchParams.get("range") || "ALL").toUpperCase();
+  if (!SNAPSHOT_RANGES.includes(range)) {
+    return NextResponse.json({ success: false, error: `Unknown range: ${range}` }, { status: 400 });
+  }
+
+  const snapshots = await getSnapshotStore().list(id, snapshotRangeStart(range));
+  return NextResponse.json({ success: true, range, snapshots });
+}
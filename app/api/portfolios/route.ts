@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImportError, parseUpload, type ImportIssue } from "@/lib/import";
+import { getPortfolioStore, readPortfolioInput, type PortfolioInput } from "@/lib/storage";
+
+export async function GET() {
+  const portfolios = await getPortfolioStore().list();
+  return NextResponse.json({ success: true, portfolios });
+}
+
+// Accepts either an upload form (file, optional mapping, name and owner) or a JSON
+// { name, owner?, holdings, transactions }
+export async function POST(request: NextRequest) {
+  try {
+    let input: PortfolioInput;
+    let issues: ImportIssue[] = [];
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const parsed = await parseUpload(formData);
+      const file = formData.get("file") as File;
+
+      if (!parsed.stocks.length && !parsed.transactions.length) {
+        return NextResponse.json(
+          { success: false, error: "No valid stock rows found", issues: parsed.issues },
+          { status: 400 }
+        );
+      }
+
+      input = {
+        name: String(formData.get("name") || "").trim() || file.name.replace(/\.[^.]+$/, ""),
+        owner: String(formData.get("owner") || "").trim() || undefined,
+        holdings: parsed.stocks,
+        transactions: parsed.transactions,
+      };
+      issues = parsed.issues;
+    } else {
+      const result = readPortfolioInput(await request.json().catch(() => null), false);
+      if (!result.ok) return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+      input = result.value as PortfolioInput;
+    }
+
+    const portfolio = await getPortfolioStore().create(input);
+    return NextResponse.json({ success: true, portfolio, issues }, { status: 201 });
+  } catch (err) {
+    if (err instanceof ImportError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 400 });
+    }
+
+    console.error("Error saving portfolio:", err);
+    return NextResponse.json({ success: false, error: "Failed to save portfolio" }, { status: 500 });
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAlerts, type Alert } from "@/lib/alerts";
+import { analyzeHoldings } from "@/lib/analysis";
+import { envNumber } from "@/lib/env";
+import { classifyQuote, isMarketOpen, type QuoteSession } from "@/lib/market";
+import { fetchStockPrices } from "@/lib/quotes";
+import { getPortfolioStore } from "@/lib/storage";
+
+const DEFAULT_INTERVAL_MS = envNumber("PRICE_STREAM_INTERVAL_MS", 15_000);
+const MIN_INTERVAL_MS = 5_000;
+const MAX_CODES = 200;
+
+interface StreamedQuote {
+  code: string;
+  price: number;
+  previousClose?: number;
+  provider: string;
+  session: QuoteSession;
+}
+
+// Prices the saved portfolio as its quotes route does and runs its alert rules; checkAlerts claims
+// rule state itself, so this can overlap a manual refresh
+async function checkPortfolioAlerts(portfolioId: string): Promise<Alert[]> {
+  const portfolio = await getPortfolioStore().get(portfolioId);
+  if (!portfolio) return [];
+  const { data, validStocks } = await analyzeHoldings(
+    portfolio.holdings,
+    portfolio.transactions,
+    portfolio.sectorOverrides
+  );
+  return validStocks > 0 ? checkAlerts(portfolio.id, data) : [];
+}
+
+// Server-Sent Events for ?codes=INFY,TCS[&interval=seconds][&portfolio=id]. The first "prices" event carries every
+// code that could be priced; later ones only codes whose price moved, and are sent while the
+// exchange is in session (not on weekends or holidays). Outside them a "status" event keeps the client's timestamp and market flag current.
+// Prices come through the quote cache, so they change at most every QUOTE_CACHE_TTL_MS.
+// With a saved portfolio, its alert rules are checked whenever a price moves, as on a refresh, and
+// an "alerts" event carries any that were raised.
+export async function GET(request: NextRequest) {
+  const codes = Array.from(
+    new Set(
+      (request.nextUrl.searchParams.get("codes") || "")
+        .split(",")
+        .map((c) => c.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+  if (!codes.length || codes.length > MAX_CODES) {
+    return NextResponse.json(
+      { success: false, error: `Give between 1 and ${MAX_CODES} comma-separated codes` },
+      { status: 400 }
+    );
+  }
+
+  const portfolioId = request.nextUrl.searchParams.get("portfolio") || undefined;
+  if (portfolioId && !(await getPortfolioStore().get(portfolioId))) {
+    return NextResponse.json({ success: false, error: "Portfolio not found" }, { status: 404 });
+  }
+
+  const seconds = Number(request.nextUrl.searchParams.get("interval"));
+  const intervalMs = seconds > 0 ? Math.max(MIN_INTERVAL_MS, seconds * 1000) : DEFAULT_INTERVAL_MS;
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => {
+    closed = true;
+    clearTimeout(timer);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      const last = new Map<string, number>();
+      let first = true;
+
+      const tick = async () => {
+        const marketOpen = isMarketOpen();
+        try {
+          if (first || marketOpen) {
+            const results = await fetchStockPrices(codes);
+            const quotes: StreamedQuote[] = [];
+            for (const [code, result] of results) {
+              if (!result.ok || result.quote.price === last.get(code)) continue;
+              last.set(code, result.quote.price);
+              const { price, previousClose, provider, marketTime, ageMs } = result.quote;
+              const session = classifyQuote(marketTime ? new Date(marketTime) : new Date(Date.now() - ageMs));
+              quotes.push({ code, price, previousClose, provider, session });
+            }
+            send("prices", { at: new Date().toISOString(), marketOpen, quotes });
+            first = false;
+
+            if (portfolioId && quotes.length) {
+              // a failing rule check shouldn't stop the prices
+              const alerts = await checkPortfolioAlerts(portfolioId).catch((err) => {
+                console.error("Error checking alerts:", err);
+                return [];
+              });
+              if (alerts.length) send("alerts", { at: new Date().toISOString(), alerts });
+            }
+          } else {
+            send("status", { at: new Date().toISOString(), marketOpen });
+          }
+        } catch (err) {
+          console.error("Error streaming prices:", err);
+          send("status", { at: new Date().toISOString(), marketOpen, error: "Failed to fetch prices" });
+        }
+        if (!closed) timer = setTimeout(tick, intervalMs);
+      };
+
+      // tells EventSource how long to wait before reconnecting
+      controller.enqueue(encoder.encode(`retry: ${intervalMs}\n\n`));
+      request.signal.addEventListener("abort", () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client going away
+        }
+      });
+      tick();
+    },
+    cancel: stop,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  rebalancePlan,
+  RebalanceError,
+  type HoldingForRebalance,
+  type TargetBasis,
+} from "@/lib/rebalance";
+import { readTaxConfig, type TaxConfig } from "@/lib/tax";
+
+interface RebalanceBody {
+  holdings?: HoldingForRebalance[];
+  basis?: TargetBasis;
+  targets?: Record<string, number>;
+  cash?: number;
+  taxConfig?: Partial<TaxConfig>;
+}
+
+export async function POST(request: NextRequest) {
+  let body: RebalanceBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ success: false, error: "Request body must be a JSON object" }, { status: 400 });
+  }
+
+  const holdings = (Array.isArray(body.holdings) ? body.holdings : []).filter(
+    (h) =>
+      h &&
+      typeof h.code === "string" &&
+      h.code &&
+      typeof h.quantity === "number" &&
+      typeof h.currentPrice === "number"
+  );
+  if (!holdings.length) {
+    return NextResponse.json({ success: false, error: "holdings must be a non-empty array" }, { status: 400 });
+  }
+
+  const basis = body.basis ?? "stock";
+  if (basis !== "stock" && basis !== "sector") {
+    return NextResponse.json({ success: false, error: `Unsupported basis: ${basis}` }, { status: 400 });
+  }
+
+  if (!body.targets || typeof body.targets !== "object" || Array.isArray(body.targets)) {
+    return NextResponse.json(
+      { success: false, error: "targets must map codes or sectors to weights" },
+      { status: 400 }
+    );
+  }
+
+  if (
+    body.taxConfig !== undefined &&
+    body.taxConfig !== null &&
+    (typeof body.taxConfig !== "object" || Array.isArray(body.taxConfig))
+  ) {
+    return NextResponse.json({ success: false, error: "taxConfig must be an object" }, { status: 400 });
+  }
+
+  const cash = typeof body.cash === "number" && Number.isFinite(body.cash) ? body.cash : 0;
+  if (cash < 0) {
+    return NextResponse.json({ success: false, error: "cash cannot be negative" }, { status: 400 });
+  }
+
+  try {
+    const plan = rebalancePlan(
+      { holdings, basis, targets: body.targets, cash },
+      readTaxConfig(body.taxConfig)
+    );
+    return NextResponse.json({ success: true, plan });
+  } catch (err) {
+    if (err instanceof RebalanceError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 400 });
+    }
+    console.error("Error computing rebalance:", err);
+    return NextResponse.json({ success: false, error: "Failed to compute rebalance" }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findBenchmark } from "@/lib/benchmark";
+import { fetchHistory, fetchStockHistories, HISTORY_RANGES, type HistoryRange } from "@/lib/quotes";
+import { DEFAULT_RISK_CONFIG, riskReport, type PriceSeries } from "@/lib/risk";
+
+interface RiskRequest {
+  holdings?: { code: string; name?: string; quantity: number }[];
+  // benchmark id from /api/benchmarks; null skips beta
+  benchmark?: string | null;
+  range?: HistoryRange;
+  riskFreeRate?: number;
+}
+
+export async function POST(request: NextRequest) {
+  let body: RiskRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ success: false, error: "Request body must be a JSON object" }, { status: 400 });
+  }
+
+  const holdings = (Array.isArray(body.holdings) ? body.holdings : []).filter(
+    (h) => h && typeof h.code === "string" && h.code && typeof h.quantity === "number"
+  );
+  if (!holdings.length) {
+    return NextResponse.json({ success: false, error: "holdings must be a non-empty array" }, { status: 400 });
+  }
+
+  const range = body.range ?? "1y";
+  if (range === "max" || !HISTORY_RANGES.includes(range)) {
+    return NextResponse.json({ success: false, error: `Unsupported range: ${range}` }, { status: 400 });
+  }
+
+  if (body.benchmark !== undefined && body.benchmark !== null && typeof body.benchmark !== "string") {
+    return NextResponse.json({ success: false, error: "benchmark must be an index id or null" }, { status: 400 });
+  }
+  const benchmark = body.benchmark === null ? null : findBenchmark(body.benchmark || "nifty50");
+  if (benchmark === undefined) {
+    return NextResponse.json({ success: false, error: `Unknown index: ${body.benchmark}` }, { status: 400 });
+  }
+
+  const riskFreeRate =
+    typeof body.riskFreeRate === "number" && Number.isFinite(body.riskFreeRate) && body.riskFreeRate >= 0
+      ? body.riskFreeRate
+      : DEFAULT_RISK_CONFIG.riskFreeRate;
+
+  // a code listed twice (e.g. two demat accounts) is one position
+  const byCode = new Map<string, { name: string; quantity: number }>();
+  for (const h of holdings) {
+    const existing = byCode.get(h.code);
+    byCode.set(h.code, {
+      name: existing?.name ?? (h.name || h.code),
+      quantity: (existing?.quantity ?? 0) + h.quantity,
+    });
+  }
+
+  try {
+    const query = { range, interval: "1d" } as const;
+    const [histories, index] = await Promise.all([
+      fetchStockHistories(Array.from(byCode.keys()), query),
+      // beta is simply left out when the index has no history
+      benchmark ? fetchHistory(benchmark.symbol, query).catch(() => null) : null,
+    ]);
+
+    const series: PriceSeries[] = [];
+    const missing: { code: string; reason: string; message: string }[] = [];
+    for (const [code, { name, quantity }] of byCode) {
+      const result = histories.get(code)!;
+      if (result.ok) series.push({ code, name, quantity, candles: result.history.candles });
+      else missing.push({ code, reason: result.reason, message: result.message });
+    }
+
+    return NextResponse.json({
+      success: true,
+      benchmark: index ? benchmark : null,
+      report: riskReport(series, index?.candles ?? null, { riskFreeRate }),
+      missing,
+    });
+  } catch (err) {
+    console.error("Error computing risk:", err);
+    return NextResponse.json({ success: false, error: "Failed to compute risk metrics" }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({ success: true, config: DEFAULT_RISK_CONFIG });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forgetAlias, listAliases, rememberAlias, type InstrumentQuery } from "@/lib/instruments";
+
+interface AliasRequest extends InstrumentQuery {
+  symbol?: string;
+}
+
+async function readBody(request: NextRequest): Promise<AliasRequest | null> {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") return null;
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  const input = { code: text(body.code), isin: text(body.isin), name: text(body.name), symbol: text(body.symbol) };
+  return input.code || input.isin || input.name ? input : null;
+}
+
+export async function GET() {
+  return NextResponse.json({ success: true, aliases: await listAliases() });
+}
+
+// { code?, isin?, name?, symbol } remembers `symbol` for future imports of that row
+export async function POST(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body?.symbol) {
+    return NextResponse.json(
+      { success: false, error: "Give the symbol and at least one of code, isin or name" },
+      { status: 400 }
+    );
+  }
+
+  const symbol = body.symbol.toUpperCase().replace(/\.(NS|BO)$/, "");
+  const keys = await rememberAlias(body, symbol);
+  return NextResponse.json({ success: true, symbol, keys });
+}
+
+export async function DELETE(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) {
+    return NextResponse.json({ success: false, error: "Give a code, isin or name" }, { status: 400 });
+  }
+  await forgetAlias(body);
+  return NextResponse.json({ success: true });
+}
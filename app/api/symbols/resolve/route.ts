@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/instruments";
+
+// ?code=&name=&isin=&limit= -> { symbol, matchedBy, candidates } (candidates ranked best first)
+export async function GET(request: NextRequest) {
+  const search = request.nextUrl.searchParams;
+  const query = {
+    isin: search.get("isin") || undefined,
+    code: search.get("code") || undefined,
+    name: search.get("name") || undefined,
+  };
+  if (!query.isin && !query.code && !query.name) {
+    return NextResponse.json({ success: false, error: "Give a code, name or isin" }, { status: 400 });
+  }
+
+  const limit = Math.min(20, Math.max(1, Number(search.get("limit")) || 5));
+  return NextResponse.json({ success: true, ...(await resolveSymbol(query, limit)) });
+}
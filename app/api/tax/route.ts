@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RealizedGain } from "@/lib/ledger";
+import {
+  capitalGainsReport,
+  DEFAULT_TAX_CONFIG,
+  readTaxConfig,
+  type HoldingForTax,
+  type TaxConfig,
+} from "@/lib/tax";
+
+interface TaxRequest {
+  realizedGains?: RealizedGain[];
+  holdings?: HoldingForTax[];
+  config?: Partial<TaxConfig>;
+  asOf?: string;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const isDate = (v: unknown) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v));
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+// undated lots and sales are allowed; they are classified as UNKNOWN
+const isOptionalDate = (v: unknown) => v === undefined || v === null || isDate(v);
+
+// The financial-year split and holding-period classification read these straight off each gain
+function isRealizedGain(g: unknown): boolean {
+  return (
+    isObject(g) &&
+    typeof g.code === "string" &&
+    isDate(g.sellDate) &&
+    isOptionalDate(g.buyDate) &&
+    isFiniteNumber(g.gain)
+  );
+}
+
+// Unrealized gains are worked out lot by lot from these
+function isHoldingForTax(h: unknown): boolean {
+  return (
+    isObject(h) &&
+    typeof h.code === "string" &&
+    (h.currentPrice === undefined || h.currentPrice === null || isFiniteNumber(h.currentPrice)) &&
+    Array.isArray(h.lots) &&
+    h.lots.every(
+      (l) => isObject(l) && isFiniteNumber(l.quantity) && isFiniteNumber(l.cost) && isOptionalDate(l.date)
+    )
+  );
+}
+
+export async function POST(request: NextRequest) {
+  let body: TaxRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  // JSON.parse accepts null, numbers and arrays too
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ success: false, error: "Request body must be a JSON object" }, { status: 400 });
+  }
+  if (!Array.isArray(body.realizedGains ?? []) || !Array.isArray(body.holdings ?? [])) {
+    return NextResponse.json(
+      { success: false, error: "realizedGains and holdings must be arrays" },
+      { status: 400 }
+    );
+  }
+  if (!(body.realizedGains ?? []).every(isRealizedGain)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "realizedGains must be { code, sellDate, buyDate?, gain } with yyyy-mm-dd dates and a numeric gain",
+      },
+      { status: 400 }
+    );
+  }
+  if (!(body.holdings ?? []).every(isHoldingForTax)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "holdings must be { code, currentPrice?, lots: [{ quantity, cost, date? }] } with yyyy-mm-dd dates",
+      },
+      { status: 400 }
+    );
+  }
+  if (body.config !== undefined && !isObject(body.config)) {
+    return NextResponse.json({ success: false, error: "config must be an object" }, { status: 400 });
+  }
+
+  const asOf = body.asOf && /^\d{4}-\d{2}-\d{2}$/.test(body.asOf) ? body.asOf : undefined;
+  const report = capitalGainsReport(
+    body.realizedGains ?? [],
+    body.holdings ?? [],
+    readTaxConfig(body.config),
+    asOf
+  );
+
+  return NextResponse.json({ success: true, report });
+}
+
+export async function GET() {
+  return NextResponse.json({ success: true, config: DEFAULT_TAX_CONFIG });
+}
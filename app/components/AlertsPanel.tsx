@@ -0,0 +1,258 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Bell, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type Kind = "price" | "dayChange" | "portfolioPnl";
+
+interface Rule {
+  id: string;
+  condition: { kind: Kind; code?: string; op?: string; direction?: string; price?: number; percent?: number };
+  enabled: boolean;
+  lastTriggeredAt?: string;
+}
+
+interface Alert {
+  id: string;
+  triggeredAt: string;
+  message: string;
+  read: boolean;
+  deliveries: { notifier: string; ok: boolean; error?: string }[];
+}
+
+interface Props {
+  portfolioId: string;
+  holdings: { code: string; name: string }[];
+  // changes whenever the portfolio is re-priced, i.e. rules may have fired
+  pricedAt: number;
+}
+
+function describe({ kind, code, op, direction, price, percent }: Rule["condition"]): string {
+  if (kind === "price") return `${code} ${op} ₹${price}`;
+  if (kind === "dayChange") return `${code ?? "Any holding"} ${direction === "down" ? "drops" : "rises"} ${percent}% in a day`;
+  return `Portfolio P&L ${op} ${percent}%`;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { timeZone: "Asia/Kolkata", dateStyle: "medium", timeStyle: "short" });
+
+const AlertsPanel: React.FC<Props> = ({ portfolioId, holdings, pricedAt }) => {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [kind, setKind] = useState<Kind>("price");
+  const [code, setCode] = useState("");
+  const [op, setOp] = useState("below");
+  const [direction, setDirection] = useState("down");
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/portfolios/${portfolioId}/alerts`);
+      const result = await res.json();
+      if (result.success) {
+        setRules(result.rules);
+        setAlerts(result.alerts);
+      }
+    } catch {
+      setError("Network error while loading alerts");
+    }
+  }, [portfolioId]);
+
+  useEffect(() => {
+    load();
+  }, [load, pricedAt]);
+
+  const addRule = async () => {
+    const value = Number(amount);
+    const condition =
+      kind === "price"
+        ? { kind, code: code || holdings[0]?.code, op, price: value }
+        : kind === "dayChange"
+          ? { kind, code: code || undefined, direction, percent: value }
+          : { kind, op, percent: value };
+
+    try {
+      const res = await fetch(`/api/portfolios/${portfolioId}/alerts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(condition),
+      });
+      const result = await res.json();
+      if (result.success) {
+        setAmount("");
+        setError("");
+        load();
+      } else {
+        setError(result.error || "Failed to add the rule");
+      }
+    } catch {
+      setError("Network error while adding the rule");
+    }
+  };
+
+  const toggleRule = async (rule: Rule) => {
+    await fetch(`/api/portfolios/${portfolioId}/alerts/${rule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: !rule.enabled }),
+    }).catch(() => setError("Network error while updating the rule"));
+    load();
+  };
+
+  const removeRule = async (rule: Rule) => {
+    await fetch(`/api/portfolios/${portfolioId}/alerts/${rule.id}`, { method: "DELETE" }).catch(() =>
+      setError("Network error while deleting the rule")
+    );
+    load();
+  };
+
+  const markRead = async () => {
+    const ids = alerts.filter((a) => !a.read).map((a) => a.id);
+    if (!ids.length) return;
+    await fetch("/api/alerts", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    }).catch(() => setError("Network error while updating alerts"));
+    load();
+  };
+
+  const unread = alerts.filter((a) => !a.read).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Bell className="w-6 h-6" />
+        Alerts
+        {unread > 0 && (
+          <span className="text-sm font-medium bg-red-600 text-white rounded-full px-2 py-0.5">{unread}</span>
+        )}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4 items-end">
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          When
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as Kind)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          >
+            <option value="price">Price crosses</option>
+            <option value="dayChange">Day&apos;s move</option>
+            <option value="portfolioPnl">Portfolio P&amp;L crosses</option>
+          </select>
+        </label>
+        {kind !== "portfolioPnl" && (
+          <label className="flex flex-col text-sm text-gray-600 gap-1">
+            Stock
+            <select
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="border rounded-lg px-2 py-1 shadow-sm"
+            >
+              {kind === "dayChange" && <option value="">Any holding</option>}
+              {holdings.map((h) => (
+                <option key={h.code} value={h.code}>
+                  {h.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          {kind === "dayChange" ? "Direction" : "Is"}
+          {kind === "dayChange" ? (
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value)}
+              className="border rounded-lg px-2 py-1 shadow-sm"
+            >
+              <option value="down">Drops by</option>
+              <option value="up">Rises by</option>
+            </select>
+          ) : (
+            <select
+              value={op}
+              onChange={(e) => setOp(e.target.value)}
+              className="border rounded-lg px-2 py-1 shadow-sm"
+            >
+              <option value="below">Below</option>
+              <option value="above">Above</option>
+            </select>
+          )}
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          {kind === "price" ? "Price (₹)" : "Percent"}
+          <input
+            type="number"
+            step={kind === "price" ? 1 : 0.5}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        <Button onClick={addRule} disabled={!amount.trim()}>
+          Add rule
+        </Button>
+      </div>
+
+      {error && <p className="text-red-700 mb-4">{error}</p>}
+
+      {rules.length > 0 && (
+        <ul className="divide-y divide-gray-200 mb-6 text-sm">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between py-2">
+              <span className={rule.enabled ? "text-gray-900" : "text-gray-400 line-through"}>
+                {describe(rule.condition)}
+                {rule.lastTriggeredAt && (
+                  <span className="text-xs text-gray-500 ml-2">last fired {formatTime(rule.lastTriggeredAt)}</span>
+                )}
+              </span>
+              <span className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => toggleRule(rule)}>
+                  {rule.enabled ? "Pause" : "Resume"}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => removeRule(rule)} title="Delete rule">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">Notifications</h3>
+        {unread > 0 && (
+          <Button size="sm" variant="outline" onClick={markRead}>
+            Mark all read
+          </Button>
+        )}
+      </div>
+      {alerts.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No alerts yet. Rules are checked every time the portfolio&apos;s prices are refreshed.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 text-sm max-h-80 overflow-y-auto">
+          {alerts.map((a) => (
+            <li key={a.id} className={`py-2 px-2 ${a.read ? "text-gray-500" : "bg-yellow-50 text-gray-900"}`}>
+              <div>{a.message}</div>
+              <div className="text-xs text-gray-500">
+                {formatTime(a.triggeredAt)}
+                {a.deliveries.map((d, i) => (
+                  <span key={i} className={`ml-2 ${d.ok ? "text-green-700" : "text-red-700"}`}>
+                    {d.notifier} {d.ok ? "✓" : `✗ ${d.error ?? ""}`}
+                  </span>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
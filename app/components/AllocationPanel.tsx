@@ -0,0 +1,184 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { Cell, Legend, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import { allocationReport, type AllocationHolding, type Concentration, type Slice } from "@/lib/allocation";
+
+interface Props {
+  holdings: AllocationHolding[];
+}
+
+const COLORS = ["#8884d8", "#82ca9d", "#ffc658", "#ff8042", "#0088fe", "#00c49f", "#ffbb28", "#a4de6c", "#d0ed57", "#8dd1e1"];
+
+const LEVEL_STYLES: Record<Concentration["level"], string> = {
+  low: "bg-green-50 text-green-800",
+  moderate: "bg-yellow-50 text-yellow-800",
+  high: "bg-red-50 text-red-800",
+};
+
+const pct = (fraction: number) => formatPercent(fraction * 100);
+
+const Donut: React.FC<{ title: string; slices: Slice[]; flagged?: Set<string> }> = ({
+  title,
+  slices,
+  flagged,
+}) => (
+  <div>
+    <h3 className="text-lg font-semibold text-gray-800 mb-2">{title}</h3>
+    <ResponsiveContainer width="100%" height={300}>
+      <PieChart>
+        <Pie data={slices} dataKey="value" nameKey="label" innerRadius={60} outerRadius={100} paddingAngle={1}>
+          {slices.map((s, i) => (
+            <Cell
+              key={s.label}
+              fill={COLORS[i % COLORS.length]}
+              stroke={flagged?.has(s.label) ? "#dc2626" : undefined}
+              strokeWidth={flagged?.has(s.label) ? 3 : 1}
+            />
+          ))}
+        </Pie>
+        <Tooltip
+          formatter={(value: number, _name, item) => [
+            `${formatCurrency(value)} (${pct(item.payload.weight)})`,
+            item.payload.label,
+          ]}
+        />
+        <Legend />
+      </PieChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const ConcentrationTile: React.FC<{ label: string; value: Concentration }> = ({ label, value }) => (
+  <div className={`p-4 rounded-lg ${LEVEL_STYLES[value.level]}`}>
+    <h3 className="text-sm font-medium">{label}</h3>
+    <p className="text-2xl font-bold">{value.hhi.toLocaleString("en-IN")}</p>
+    <p className="text-xs">
+      {value.level} concentration · like {value.effectiveCount.toFixed(1)} equal positions
+    </p>
+  </div>
+);
+
+const AllocationPanel: React.FC<Props> = ({ holdings }) => {
+  const [topN, setTopN] = useState(5);
+  const [holdingLimit, setHoldingLimit] = useState(10);
+  const [sectorLimit, setSectorLimit] = useState(25);
+
+  const report = useMemo(
+    () => allocationReport(holdings, { holding: holdingLimit / 100, sector: sectorLimit / 100 }, topN),
+    [holdings, topN, holdingLimit, sectorLimit]
+  );
+
+  const flaggedSectors = new Set(report.flagged.sectors.map((s) => s.label));
+  const flaggedHoldings = new Set(report.flagged.holdings.map((h) => h.code));
+
+  if (!report.total) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Allocation</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Top holdings shown
+          <input
+            type="number"
+            min={1}
+            value={topN}
+            onChange={(e) => setTopN(Math.max(1, Number(e.target.value)))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Flag a holding above (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={holdingLimit}
+            onChange={(e) => setHoldingLimit(Number(e.target.value))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Flag a sector above (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={sectorLimit}
+            onChange={(e) => setSectorLimit(Number(e.target.value))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+      </div>
+
+      {(report.flagged.holdings.length > 0 || report.flagged.sectors.length > 0) && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {report.flagged.holdings.map((h) => (
+            <p key={h.code}>
+              {h.name} is {pct(h.weight)} of the portfolio (limit {holdingLimit}%).
+            </p>
+          ))}
+          {report.flagged.sectors.map((s) => (
+            <p key={s.label}>
+              {s.label} is {pct(s.weight)} of the portfolio (limit {sectorLimit}%).
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <ConcentrationTile label="Herfindahl index · holdings" value={report.holdings} />
+        <ConcentrationTile label="Herfindahl index · sectors" value={report.sectors} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 mb-6">
+        <Donut title="By sector" slices={report.bySector} flagged={flaggedSectors} />
+        <Donut title="By asset class" slices={report.byAssetClass} />
+        <Donut title="By market cap" slices={report.byMarketCap} />
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Top {topN} holdings</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {["Stock", "Sector", "Value", "Weight", "Cumulative"].map((h, i) => (
+                <th
+                  key={h}
+                  className={`px-4 py-3 font-medium text-gray-500 uppercase tracking-wider ${
+                    i > 1 ? "text-right" : "text-left"
+                  }`}
+                >
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {report.top.map((h) => (
+              <tr key={h.code} className={flaggedHoldings.has(h.code) ? "bg-red-50" : ""}>
+                <td className="px-4 py-2 text-gray-900">{h.name}</td>
+                <td className="px-4 py-2 text-gray-500">{h.sector || "Others"}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(h.value)}</td>
+                <td
+                  className={`px-4 py-2 text-right ${
+                    flaggedHoldings.has(h.code) ? "text-red-700 font-semibold" : ""
+                  }`}
+                >
+                  {pct(h.weight)}
+                </td>
+                <td className="px-4 py-2 text-right">{pct(h.cumulative)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AllocationPanel;
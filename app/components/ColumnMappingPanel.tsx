@@ -0,0 +1,74 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+
+export interface ColumnMapping {
+  headerRow: number;
+  headers: string[];
+  columns: Partial<Record<string, number>>;
+}
+
+const COLUMN_LABELS: Record<string, string> = {
+  name: "Stock name",
+  code: "Code / Symbol",
+  isin: "ISIN",
+  purchasePrice: "Purchase price",
+  quantity: "Quantity",
+  investment: "Investment",
+  portfolioPercent: "Portfolio %",
+  cmp: "CMP",
+  presentValue: "Present value",
+  gainLoss: "Gain/Loss",
+  gainLossPercent: "Gain/Loss %",
+  marketCap: "Market cap",
+  peRatio: "P/E",
+  sector: "Sector",
+  purchaseDate: "Purchase date",
+  assetType: "Asset type",
+};
+
+interface Props {
+  mapping: ColumnMapping;
+  overrides: Record<string, number>;
+  onChange: (overrides: Record<string, number>) => void;
+  onApply: () => void;
+  disabled?: boolean;
+}
+
+const ColumnMappingPanel: React.FC<Props> = ({ mapping, overrides, onChange, onApply, disabled }) => {
+  const selected = (key: string) => overrides[key] ?? mapping.columns[key] ?? -1;
+
+  return (
+    <details className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <summary className="cursor-pointer text-gray-700 font-medium">
+        Column mapping (header on row {mapping.headerRow + 1})
+      </summary>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+        {Object.entries(COLUMN_LABELS).map(([key, label]) => (
+          <label key={key} className="flex flex-col text-sm text-gray-600 gap-1">
+            {label}
+            <select
+              value={selected(key)}
+              onChange={(e) => onChange({ ...overrides, [key]: Number(e.target.value) })}
+              className="border rounded-lg px-2 py-1 shadow-sm"
+            >
+              <option value={-1}>— not mapped —</option>
+              {mapping.headers.map((h, i) => (
+                <option key={i} value={i}>
+                  {h || `Column ${i + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <Button variant="secondary" onClick={onApply} disabled={disabled}>
+          Re-analyze with this mapping
+        </Button>
+      </div>
+    </details>
+  );
+};
+
+export default ColumnMappingPanel;
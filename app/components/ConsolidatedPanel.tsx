@@ -0,0 +1,261 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, FolderOpen, Layers, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import { UNTAGGED_OWNER, type Consolidated, type PortfolioTotals } from "@/lib/consolidate";
+
+interface Props {
+  // saved portfolios to merge; empty for all of them
+  ids: string[];
+  onOpen: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const pct = (v: number | null | undefined) => (v == null ? "—" : formatPercent(v * 100));
+const tone = (v: number) => (v >= 0 ? "text-green-600" : "text-red-600");
+
+const METRICS: { label: string; render: (t: PortfolioTotals & { xirr?: number | null }) => React.ReactNode }[] = [
+  { label: "Holdings", render: (t) => t.holdings },
+  { label: "Investment", render: (t) => formatCurrency(t.invested) },
+  { label: "Current Value", render: (t) => formatCurrency(t.value) },
+  { label: "Unrealized", render: (t) => <span className={tone(t.gainLoss)}>{formatCurrency(t.gainLoss)}</span> },
+  { label: "Return", render: (t) => <span className={tone(t.gainLoss)}>{pct(t.returnPct)}</span> },
+  { label: "Realized", render: (t) => <span className={tone(t.realized)}>{formatCurrency(t.realized)}</span> },
+  { label: "Dividends", render: (t) => formatCurrency(t.dividends) },
+  { label: "XIRR", render: (t) => (t.xirr === undefined ? "" : pct(t.xirr)) },
+];
+
+// Metrics down the side, one column per account or owner, for comparing them side by side
+const Comparison: React.FC<{
+  columns: { key: string; title: React.ReactNode; totals: PortfolioTotals & { xirr?: number | null } }[];
+}> = ({ columns }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-3" />
+          {columns.map((c) => (
+            <th key={c.key} className="px-4 py-3 text-right font-medium text-gray-500 tracking-wider align-bottom">
+              {c.title}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {METRICS.map((m) => (
+          <tr key={m.label}>
+            <td className="px-4 py-2 text-gray-500 uppercase text-xs tracking-wider">{m.label}</td>
+            {columns.map((c) => (
+              <td key={c.key} className="px-4 py-2 text-right text-gray-900">
+                {m.render(c.totals)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const ConsolidatedPanel: React.FC<Props> = ({ ids, onOpen, onClose }) => {
+  const [consolidated, setConsolidated] = useState<Consolidated | null>(null);
+  const [owner, setOwner] = useState("");
+  const [owners, setOwners] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams();
+    if (ids.length) params.set("ids", ids.join(","));
+    if (owner) params.set("owner", owner);
+    setLoading(true);
+
+    fetch(`/api/consolidated?${params}`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setConsolidated(result.consolidated);
+          setError("");
+          // the owner filter lists everyone in the unfiltered view
+          if (!owner) setOwners(result.consolidated.owners.map((o: { owner: string }) => o.owner));
+        } else {
+          setError(result.error || "Failed to consolidate portfolios");
+        }
+      })
+      .catch((err) => {
+        if (err.name !== "AbortError") setError("Network error while consolidating portfolios");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [ids, owner]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Layers className="w-6 h-6" />
+          Consolidated View
+        </h2>
+        <div className="flex items-center gap-2">
+          {owners.length > 1 && (
+            <select
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              className="border rounded-lg px-2 py-1 shadow-sm text-sm"
+            >
+              <option value="">All owners</option>
+              {owners.map((o) => (
+                <option key={o} value={o}>
+                  {o}
+                </option>
+              ))}
+            </select>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+      {loading && !consolidated && <p className="text-sm text-gray-500">Pricing every account...</p>}
+
+      {consolidated && (
+        <div className={loading ? "opacity-60" : ""}>
+          <h3 className="text-gray-700 font-medium mb-2">Accounts</h3>
+          <Comparison
+            columns={[
+              ...consolidated.accounts.map((a) => ({
+                key: a.portfolioId,
+                title: (
+                  <button
+                    className="inline-flex flex-col items-end hover:text-blue-700"
+                    onClick={() => onOpen(a.portfolioId, a.name)}
+                    title="Open this account"
+                  >
+                    <span className="flex items-center gap-1 text-gray-800">
+                      <FolderOpen className="w-3 h-3" />
+                      {a.name}
+                    </span>
+                    <span className="text-xs font-normal">{a.owner ?? UNTAGGED_OWNER}</span>
+                  </button>
+                ),
+                totals: a,
+              })),
+              ...(consolidated.accounts.length > 1
+                ? [{ key: "total", title: <span className="text-gray-800">Total</span>, totals: consolidated.totals }]
+                : []),
+            ]}
+          />
+
+          {consolidated.owners.length > 1 && (
+            <>
+              <h3 className="text-gray-700 font-medium mt-6 mb-2">Owners</h3>
+              <Comparison
+                columns={consolidated.owners.map((o) => ({
+                  key: o.owner,
+                  title: (
+                    <span className="inline-flex flex-col items-end">
+                      <span className="text-gray-800">{o.owner}</span>
+                      <span className="text-xs font-normal">
+                        {o.accounts} account{o.accounts === 1 ? "" : "s"}
+                      </span>
+                    </span>
+                  ),
+                  totals: o,
+                }))}
+              />
+            </>
+          )}
+
+          <h3 className="text-gray-700 font-medium mt-6 mb-2">Merged holdings</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Stock", "Accounts", "Quantity", "Avg Cost", "Investment", "Current Price", "Current Value", "Gain/Loss", "Return %"].map(
+                    (h, i) => (
+                      <th
+                        key={h}
+                        className={`px-4 py-3 font-medium text-gray-500 uppercase tracking-wider ${
+                          i > 1 ? "text-right" : "text-left"
+                        }`}
+                      >
+                        {h}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {consolidated.holdings.map((h) => (
+                  <React.Fragment key={h.key}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(expanded === h.key ? null : h.key)}
+                    >
+                      <td className="px-4 py-2 text-gray-900">
+                        <span className="flex items-center gap-1">
+                          {expanded === h.key ? (
+                            <ChevronDown className="w-4 h-4" />
+                          ) : (
+                            <ChevronRight className="w-4 h-4" />
+                          )}
+                          {h.name}
+                          <span className="text-xs text-gray-500">{h.code}</span>
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-500">{h.accounts.length}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatNumber(h.quantity)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(h.averageCost)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(h.investment)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(h.currentPrice)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(h.value)}</td>
+                      <td className={`px-4 py-2 text-right font-medium ${tone(h.gainLoss)}`}>
+                        {formatCurrency(h.gainLoss)}
+                      </td>
+                      <td className={`px-4 py-2 text-right font-medium ${tone(h.gainLoss)}`}>{pct(h.returnPct)}</td>
+                    </tr>
+                    {expanded === h.key &&
+                      h.accounts.map((a, i) => (
+                        <tr key={`${h.key}-${i}`} className="bg-blue-50/40 text-xs">
+                          <td className="pl-10 pr-4 py-2 text-gray-700" colSpan={2}>
+                            <button
+                              className="flex items-center gap-1 hover:text-blue-700"
+                              onClick={() => onOpen(a.portfolioId, a.portfolioName)}
+                              title="Open this account"
+                            >
+                              <FolderOpen className="w-3 h-3" />
+                              {a.portfolioName}
+                              <span className="text-gray-500">· {a.owner ?? UNTAGGED_OWNER}</span>
+                            </button>
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-700">{formatNumber(a.quantity)}</td>
+                          <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(a.averageCost)}</td>
+                          <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(a.investment)}</td>
+                          <td />
+                          <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(a.value)}</td>
+                          <td className={`px-4 py-2 text-right ${tone(a.gainLoss)}`}>{formatCurrency(a.gainLoss)}</td>
+                          <td className={`px-4 py-2 text-right ${tone(a.gainLoss)}`}>
+                            {pct(a.investment ? a.gainLoss / a.investment : null)}
+                          </td>
+                        </tr>
+                      ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsolidatedPanel;
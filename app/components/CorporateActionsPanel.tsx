@@ -0,0 +1,269 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatNumber } from "@/lib/format";
+
+type ActionType = "DIVIDEND" | "SPLIT" | "BONUS" | "RIGHTS";
+
+interface Action {
+  id?: string;
+  date?: string;
+  code: string;
+  name?: string;
+  type: ActionType;
+  quantity: number;
+  price: number;
+  ratio?: [number, number];
+  amount?: number;
+}
+
+interface Props {
+  portfolioId: string;
+  holdings: { code: string; name: string }[];
+  // called after an action is added or removed, so the portfolio can be re-analyzed
+  onChange: () => void;
+}
+
+const TYPE_LABELS: Record<ActionType, string> = {
+  DIVIDEND: "Dividend",
+  SPLIT: "Split",
+  BONUS: "Bonus",
+  RIGHTS: "Rights issue",
+};
+
+function describe(a: Action): string {
+  const ratio = a.ratio ? `${a.ratio[0]}:${a.ratio[1]}` : "";
+  switch (a.type) {
+    case "DIVIDEND":
+      return a.amount ? formatCurrency(a.amount) : `₹${formatNumber(a.price)} per share`;
+    case "SPLIT":
+      return `${ratio} (each share becomes ${a.ratio ? a.ratio[1] / a.ratio[0] : "?"})`;
+    case "BONUS":
+      return `${ratio} (${a.ratio?.[0]} bonus per ${a.ratio?.[1]} held)`;
+    case "RIGHTS":
+      return `${a.quantity ? `${formatNumber(a.quantity)} shares` : `${ratio} entitlement`} at ₹${formatNumber(a.price)}`;
+  }
+}
+
+const CorporateActionsPanel: React.FC<Props> = ({ portfolioId, holdings, onChange }) => {
+  const [actions, setActions] = useState<Action[]>([]);
+  const [type, setType] = useState<ActionType>("DIVIDEND");
+  const [code, setCode] = useState("");
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [amount, setAmount] = useState("");
+  const [perShare, setPerShare] = useState("");
+  const [ratio, setRatio] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/portfolios/${portfolioId}/corporate-actions`);
+      const result = await res.json();
+      if (result.success) setActions(result.actions);
+    } catch {
+      setError("Network error while loading corporate actions");
+    }
+  }, [portfolioId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const number = (v: string) => (v.trim() ? Number(v) : undefined);
+
+  const addAction = async () => {
+    const action = {
+      type,
+      code: code || holdings[0]?.code,
+      date,
+      ...(type === "DIVIDEND" && { amount: number(amount), price: number(perShare) }),
+      ...((type === "SPLIT" || type === "BONUS") && { ratio }),
+      ...(type === "RIGHTS" && { price: number(perShare), quantity: number(quantity), ratio: ratio || undefined }),
+    };
+
+    try {
+      const res = await fetch(`/api/portfolios/${portfolioId}/corporate-actions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action),
+      });
+      const result = await res.json();
+      if (result.success) {
+        setAmount("");
+        setPerShare("");
+        setRatio("");
+        setQuantity("");
+        setError("");
+        load();
+        onChange();
+      } else {
+        setError(result.error || "Failed to add the corporate action");
+      }
+    } catch {
+      setError("Network error while adding the corporate action");
+    }
+  };
+
+  const removeAction = async (action: Action) => {
+    await fetch(`/api/portfolios/${portfolioId}/corporate-actions/${action.id}`, { method: "DELETE" }).catch(() =>
+      setError("Network error while deleting the corporate action")
+    );
+    load();
+    onChange();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Dividends &amp; Corporate Actions</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-4 items-end">
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Type
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as ActionType)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          >
+            {(Object.keys(TYPE_LABELS) as ActionType[]).map((t) => (
+              <option key={t} value={t}>
+                {TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Stock
+          <select value={code} onChange={(e) => setCode(e.target.value)} className="border rounded-lg px-2 py-1 shadow-sm">
+            {holdings.map((h) => (
+              <option key={h.code} value={h.code}>
+                {h.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          {type === "DIVIDEND" ? "Paid on" : type === "RIGHTS" ? "Allotted on" : "Ex-date"}
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        {type === "DIVIDEND" && (
+          <>
+            <label className="flex flex-col text-sm text-gray-600 gap-1">
+              Amount received (₹)
+              <input
+                type="number"
+                min={0}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="border rounded-lg px-2 py-1 shadow-sm"
+              />
+            </label>
+            <label className="flex flex-col text-sm text-gray-600 gap-1">
+              or per share (₹)
+              <input
+                type="number"
+                min={0}
+                value={perShare}
+                onChange={(e) => setPerShare(e.target.value)}
+                className="border rounded-lg px-2 py-1 shadow-sm"
+              />
+            </label>
+          </>
+        )}
+        {type === "RIGHTS" && (
+          <>
+            <label className="flex flex-col text-sm text-gray-600 gap-1">
+              Issue price (₹)
+              <input
+                type="number"
+                min={0}
+                value={perShare}
+                onChange={(e) => setPerShare(e.target.value)}
+                className="border rounded-lg px-2 py-1 shadow-sm"
+              />
+            </label>
+            <label className="flex flex-col text-sm text-gray-600 gap-1">
+              Shares subscribed
+              <input
+                type="number"
+                min={0}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                className="border rounded-lg px-2 py-1 shadow-sm"
+              />
+            </label>
+          </>
+        )}
+        {type !== "DIVIDEND" && (
+          <label className="flex flex-col text-sm text-gray-600 gap-1">
+            Ratio
+            <input
+              value={ratio}
+              onChange={(e) => setRatio(e.target.value)}
+              placeholder={type === "SPLIT" ? "1:5" : type === "BONUS" ? "1:1" : "1:5 (if no quantity)"}
+              className="border rounded-lg px-2 py-1 shadow-sm"
+            />
+          </label>
+        )}
+        <Button size="sm" onClick={addAction} disabled={!holdings.length}>
+          Add
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Splits divide the cost of every lot; bonus shares join at zero cost, so the average cost falls. Rights
+        shares are a new lot at the issue price.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {actions.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Date", "Stock", "Action", "Details", "Source", ""].map((h, i) => (
+                  <th
+                    key={i}
+                    className="px-4 py-3 text-left font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {actions.map((a, i) => (
+                <tr key={a.id ?? i}>
+                  <td className="px-4 py-2 text-gray-500">{a.date ?? "—"}</td>
+                  <td className="px-4 py-2 text-gray-900">{a.name ?? a.code}</td>
+                  <td className="px-4 py-2 text-gray-900">{TYPE_LABELS[a.type]}</td>
+                  <td className="px-4 py-2 text-gray-900">{describe(a)}</td>
+                  <td className="px-4 py-2 text-gray-500">{a.id ? "Entered" : "Imported"}</td>
+                  <td className="px-4 py-2 text-right">
+                    {a.id && (
+                      <Button variant="ghost" size="sm" onClick={() => removeAction(a)} title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No dividends or corporate actions yet. Add them here, or include them in the transactions sheet.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CorporateActionsPanel;
@@ -0,0 +1,62 @@
+"use client";
+import React from "react";
+
+export interface ImportIssue {
+  row: number;
+  severity: "skipped" | "warning";
+  reason: string;
+  message: string;
+  values: Record<string, string | number | null>;
+}
+
+const ImportIssuesPanel: React.FC<{ issues: ImportIssue[] }> = ({ issues }) => {
+  const skipped = issues.filter((i) => i.severity === "skipped").length;
+  const warnings = issues.length - skipped;
+
+  return (
+    <details className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <summary className="cursor-pointer text-yellow-800 font-medium">
+        Import issues: {skipped} skipped, {warnings} {warnings === 1 ? "warning" : "warnings"}
+      </summary>
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 uppercase tracking-wider">
+              <th className="px-2 py-2">Row</th>
+              <th className="px-2 py-2">Status</th>
+              <th className="px-2 py-2">Problem</th>
+              <th className="px-2 py-2">Values</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-yellow-100">
+            {issues.map((issue, i) => (
+              <tr key={i}>
+                <td className="px-2 py-2 text-gray-900">{issue.row}</td>
+                <td className="px-2 py-2">
+                  <span
+                    className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                      issue.severity === "skipped"
+                        ? "bg-red-100 text-red-800"
+                        : "bg-yellow-100 text-yellow-800"
+                    }`}
+                  >
+                    {issue.severity === "skipped" ? "Skipped" : "Warning"}
+                  </span>
+                </td>
+                <td className="px-2 py-2 text-gray-700">{issue.message}</td>
+                <td className="px-2 py-2 text-gray-500">
+                  {Object.entries(issue.values)
+                    .filter(([, v]) => v != null && v !== "")
+                    .map(([k, v]) => `${k}: ${v}`)
+                    .join(" · ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
+
+export default ImportIssuesPanel;
@@ -0,0 +1,203 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import {
+  AreaChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatPercent } from "@/lib/format";
+
+interface Snapshot {
+  date: string;
+  invested: number;
+  value: number;
+  gainLoss: number;
+}
+
+interface Benchmark {
+  id: string;
+  label: string;
+}
+
+interface Comparison {
+  benchmark: Benchmark;
+  from: string;
+  to: string;
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  gap: number;
+  alpha: number | null;
+  beta: number | null;
+  series: { date: string; value: number }[];
+}
+
+const pct = (v: number | null) => (v == null ? "—" : formatPercent(v * 100));
+
+const RANGES = ["1M", "3M", "1Y", "ALL"] as const;
+type Range = (typeof RANGES)[number];
+
+interface Props {
+  portfolioId: string;
+  // changes whenever the portfolio is re-priced, i.e. a new snapshot may exist
+  pricedAt: number;
+}
+
+const PerformanceChart: React.FC<Props> = ({ portfolioId, pricedAt }) => {
+  const [range, setRange] = useState<Range>("3M");
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [error, setError] = useState("");
+  const [benchmarks, setBenchmarks] = useState<Benchmark[]>([]);
+  const [benchmarkId, setBenchmarkId] = useState("");
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+
+  useEffect(() => {
+    fetch("/api/benchmarks")
+      .then((res) => res.json())
+      .then((result) => result.success && setBenchmarks(result.benchmarks))
+      .catch(() => setBenchmarks([]));
+  }, []);
+
+  useEffect(() => {
+    setComparison(null);
+    if (!benchmarkId) return;
+    const controller = new AbortController();
+
+    fetch(`/api/portfolios/${portfolioId}/benchmark?index=${benchmarkId}&range=${range}`, {
+      signal: controller.signal,
+    })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) setComparison(result.comparison);
+        else setError(result.error || "Failed to load the benchmark");
+      })
+      .catch((err) => {
+        if (err.name !== "AbortError") setError("Network error while loading the benchmark");
+      });
+
+    return () => controller.abort();
+  }, [portfolioId, pricedAt, range, benchmarkId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/portfolios/${portfolioId}/snapshots?range=${range}`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setSnapshots(result.snapshots);
+          setError("");
+        } else {
+          setError(result.error || "Failed to load history");
+        }
+      })
+      .catch((err) => {
+        if (err.name !== "AbortError") setError("Network error while loading history");
+      });
+
+    return () => controller.abort();
+  }, [portfolioId, pricedAt, range]);
+
+  const overlay = new Map(comparison?.series.map((p) => [p.date, Math.round(p.value)]));
+  const benchmarkLabel = comparison?.benchmark.label ?? "";
+  const points = snapshots.map((s) => ({
+    date: s.date,
+    Value: Math.round(s.value),
+    Invested: Math.round(s.invested),
+    "P&L": Math.round(s.gainLoss),
+    ...(comparison ? { [benchmarkLabel]: overlay.get(s.date) } : {}),
+  }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800">Performance</h2>
+        <div className="flex flex-wrap items-center gap-1">
+          <select
+            value={benchmarkId}
+            onChange={(e) => setBenchmarkId(e.target.value)}
+            className="border rounded-lg px-2 py-1 text-sm shadow-sm mr-2"
+            aria-label="Benchmark"
+          >
+            <option value="">No benchmark</option>
+            {benchmarks.map((b) => (
+              <option key={b.id} value={b.id}>
+                vs {b.label}
+              </option>
+            ))}
+          </select>
+          {RANGES.map((r) => (
+            <Button
+              key={r}
+              size="sm"
+              variant={r === range ? "default" : "outline"}
+              onClick={() => setRange(r)}
+            >
+              {r === "ALL" ? "All" : r}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-red-700 mb-4">{error}</p>}
+
+      {points.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          A snapshot is recorded each day the portfolio is priced; the chart appears once there are
+          at least two.
+        </p>
+      ) : (
+        <ResponsiveContainer width="100%" height={350}>
+          <AreaChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis />
+            <Tooltip formatter={(v: number) => formatCurrency(v)} />
+            <Legend />
+            <Area type="monotone" dataKey="Value" stroke="#82ca9d" fill="#82ca9d" fillOpacity={0.3} />
+            <Area type="monotone" dataKey="Invested" stroke="#8884d8" fill="#8884d8" fillOpacity={0.15} />
+            <Line type="monotone" dataKey="P&L" stroke="#ff6961" dot={false} />
+            {comparison && (
+              <Line
+                type="monotone"
+                dataKey={benchmarkLabel}
+                stroke="#f59e0b"
+                strokeDasharray="5 3"
+                dot={false}
+              />
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      )}
+
+      {comparison && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4 text-sm">
+          {[
+            ["Portfolio (TWR)", pct(comparison.portfolioReturn)],
+            [comparison.benchmark.label, pct(comparison.benchmarkReturn)],
+            ["Return gap", pct(comparison.gap)],
+            ["Alpha", pct(comparison.alpha)],
+            ["Beta", comparison.beta == null ? "—" : comparison.beta.toFixed(2)],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-500">{label}</p>
+              <p className="text-lg font-semibold text-gray-800">{value}</p>
+            </div>
+          ))}
+          <p className="col-span-full text-gray-500">
+            {comparison.from} to {comparison.to}. The dashed line is what the same contributions
+            would be worth in {comparison.benchmark.label}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceChart;
@@ -1,13 +1,33 @@
 "use client";
-import React, { useState, useMemo, useRef } from "react";
+import React, { useState, useMemo, useRef, useEffect } from "react";
 import {
   Upload,
   FileSpreadsheet,
   TrendingUp,
   TrendingDown,
   RefreshCw,
+  Radio,
+  Download,
+  FileText,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import { incomeFigures } from "@/lib/income";
+import AlertsPanel from "./AlertsPanel";
+import AllocationPanel from "./AllocationPanel";
+import ColumnMappingPanel, { type ColumnMapping } from "./ColumnMappingPanel";
+import ConsolidatedPanel from "./ConsolidatedPanel";
+import CorporateActionsPanel from "./CorporateActionsPanel";
+import ImportIssuesPanel, { type ImportIssue } from "./ImportIssuesPanel";
+import PerformanceChart from "./PerformanceChart";
+import PriceHistoryDrawer from "./PriceHistoryDrawer";
+import RebalancePanel from "./RebalancePanel";
+import ReturnsSummary, { type PortfolioReturns } from "./ReturnsSummary";
+import RiskPanel from "./RiskPanel";
+import SavedPortfolios from "./SavedPortfolios";
+import SectorSelect from "./SectorSelect";
+import TaxPanel, { type Lot, type RealizedGain } from "./TaxPanel";
+import UnresolvedSymbolsPanel, { type Candidate } from "./UnresolvedSymbolsPanel";
 import {
   BarChart,
   Bar,
@@ -22,6 +42,9 @@ import {
 interface StockData {
   name: string;
   code: string;
+  isin?: string;
+  ticker?: string;
+  resolution?: { matchedBy: string | null; candidates?: Candidate[] };
   purchasePrice: number;
   quantity: number;
   investment: number;
@@ -30,41 +53,160 @@ interface StockData {
   updatedGainLoss: number;
   updatedGainLossPercent: number;
   priceStatus: "updated" | "unavailable";
+  quoteSession?: QuoteSession;
+  priceSource: string;
+  cacheStatus?: "hit" | "stale" | "miss";
+  cacheAgeMs?: number;
+  priceError?: { reason: string; status?: number; message: string };
   sector: string;
+  sectorOverridden?: boolean;
+  marketCapBucket?: string;
+  assetType?: "equity" | "etf" | "mutual-fund";
+  assetClass?: string;
+  lots?: Lot[];
+  realizedGainLoss?: number;
+  dividends?: number;
+  dividendsTtm?: number;
 }
 
 interface ApiResponse {
   success: boolean;
   totalStocks: number;
   validStocks: number;
+  format: { id: string; label: string };
+  mapping: ColumnMapping | null;
+  issues: ImportIssue[];
+  transactions: number;
+  realizedGains: RealizedGain[];
+  dividends: { code: string; date?: string; amount: number }[];
+  returns: PortfolioReturns;
   data: StockData[];
   error?: string;
 }
 
+type QuoteSession = "intraday" | "last-close" | "stale";
+
+interface LiveQuote {
+  price: number;
+  previousClose?: number;
+  provider: string;
+  session: QuoteSession;
+}
+
+// the key the price stream is subscribed under
+const streamKey = (s: StockData) => s.ticker ?? s.code;
+
+// Re-derives a row's value and gain from a streamed price
+function withLivePrice(s: StockData, quote: LiveQuote | undefined): StockData {
+  if (!quote) return s;
+  const value = quote.price * s.quantity;
+  const gainLoss = value - s.investment;
+  return {
+    ...s,
+    currentPrice: quote.price,
+    priceStatus: "updated",
+    quoteSession: quote.session,
+    priceSource: quote.provider,
+    priceError: undefined,
+    cacheStatus: undefined,
+    updatedPresentValue: value,
+    updatedGainLoss: gainLoss,
+    updatedGainLossPercent: s.investment ? (gainLoss / s.investment) * 100 : 0,
+  };
+}
+
+const LIVE_INTERVALS = [15, 30, 60];
+
+const fraction = (v: number | null) => (v == null ? "—" : formatPercent(v * 100));
+
+// sheet prices (no live quote) show as "Cached"
+const SESSION_BADGES: Record<QuoteSession, { label: string; className: string }> = {
+  intraday: { label: "Intraday", className: "bg-green-100 text-green-800" },
+  "last-close": { label: "Last close", className: "bg-blue-100 text-blue-800" },
+  stale: { label: "Stale", className: "bg-orange-100 text-orange-800" },
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  "yahoo-chart": "Yahoo",
+  "yahoo-finance2": "Yahoo Finance",
+  fixture: "Fixture",
+  amfi: "AMFI NAV",
+  sheet: "Sheet",
+};
+
+const ASSET_TAGS: Record<string, string> = { etf: "ETF", "mutual-fund": "MF" };
+
 const PortfolioClient: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [data, setData] = useState<StockData[]>([]);
   const [error, setError] = useState("");
-  const [stats, setStats] = useState<{ total: number; valid: number } | null>(null);
+  const [stats, setStats] = useState<{
+    total: number;
+    valid: number;
+    format: string;
+    transactions: number;
+  } | null>(null);
   const [sector, setSector] = useState("All");
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, number>>({});
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [realizedGains, setRealizedGains] = useState<RealizedGain[]>([]);
+  const [dividends, setDividends] = useState<ApiResponse["dividends"]>([]);
+  const [returns, setReturns] = useState<PortfolioReturns | null>(null);
+  const [historyStock, setHistoryStock] = useState<StockData | null>(null);
+  const [sectorOptions, setSectorOptions] = useState<string[]>([]);
+  const [portfolioId, setPortfolioId] = useState<string | null>(null);
+  const [portfolioName, setPortfolioName] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [consolidatedIds, setConsolidatedIds] = useState<string[] | null>(null);
+  const [pricedAt, setPricedAt] = useState(0);
+  // when the live stream last raised alerts, so the alerts panel reloads
+  const [alertsAt, setAlertsAt] = useState(0);
+  const [live, setLive] = useState(false);
+  const [liveInterval, setLiveInterval] = useState(LIVE_INTERVALS[0]);
+  const [livePrices, setLivePrices] = useState<Record<string, LiveQuote>>({});
+  const [liveStatus, setLiveStatus] = useState<{ at: string; marketOpen: boolean } | null>(null);
+  const [flashed, setFlashed] = useState<Record<string, "up" | "down">>({});
+  const lastPrices = useRef(new Map<string, number>());
+  const dataRef = useRef(data);
 
   const cache = useRef<Map<string, ApiResponse>>(new Map());
   const lastUpload = useRef(0);
   const UPLOAD_DELAY = 3000; 
 
 
+  const applyResult = (result: ApiResponse) => {
+    setData(result.data);
+    setLivePrices({});
+    lastPrices.current.clear();
+    setStats({
+      total: result.totalStocks,
+      valid: result.validStocks,
+      format: result.format.label,
+      transactions: result.transactions,
+    });
+    setMapping(result.mapping);
+    setIssues(result.issues);
+    setRealizedGains(result.realizedGains);
+    setDividends(result.dividends ?? []);
+    setReturns(result.returns);
+  };
+
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     if (f) {
       setFile(f);
       setError("");
+      setMapping(null);
+      setOverrides({});
+      setIssues([]);
     }
   };
 
   const uploadFile = async () => {
     if (!file) {
-      setError("Please select an Excel file");
+      setError("Please select an Excel or CSV file");
       return;
     }
 
@@ -75,11 +217,9 @@ const PortfolioClient: React.FC = () => {
     }
     lastUpload.current = now;
 
-    const cacheKey = `${file.name}_${file.size}`;
+    const cacheKey = `${file.name}_${file.size}_${JSON.stringify(overrides)}`;
     if (cache.current.has(cacheKey)) {
-      const cached = cache.current.get(cacheKey)!;
-      setData(cached.data);
-      setStats({ total: cached.totalStocks, valid: cached.validStocks });
+      applyResult(cache.current.get(cacheKey)!);
       return;
     }
 
@@ -89,16 +229,19 @@ const PortfolioClient: React.FC = () => {
     try {
       const form = new FormData();
       form.append("file", file);
+      if (Object.keys(overrides).length) form.append("mapping", JSON.stringify(overrides));
 
       const res = await fetch("/api/quotes/", { method: "POST", body: form });
       const result: ApiResponse = await res.json();
 
       if (result.success) {
-        setData(result.data);
-        setStats({ total: result.totalStocks, valid: result.validStocks });
+        applyResult(result);
+        setPortfolioId(null);
+        setPortfolioName(null);
         cache.current.set(cacheKey, result);
       } else {
         setError(result.error || "Failed to process the file");
+        setIssues(result.issues ?? []);
       }
     } catch (err) {
       console.error("Upload error:", err);
@@ -109,27 +252,174 @@ const PortfolioClient: React.FC = () => {
   };
 
 
-  const formatCurrency = (v: number) =>
-    Number.isFinite(v)
-      ? new Intl.NumberFormat("en-IN", {
-          style: "currency",
-          currency: "INR",
-          minimumFractionDigits: 2,
-        }).format(v)
-      : "—";
+  const openPortfolio = async (id: string, name?: string) => {
+    setLoading(true);
+    setError("");
 
-  const formatNumber = (v: number) =>
-    Number.isFinite(v) ? new Intl.NumberFormat("en-IN").format(v) : "—";
+    try {
+      const res = await fetch(`/api/portfolios/${id}/quotes`);
+      const result: ApiResponse = await res.json();
+
+      if (result.success) {
+        applyResult(result);
+        setPortfolioId(id);
+        if (name) setPortfolioName(name);
+        setPricedAt(Date.now());
+        setFile(null);
+      } else {
+        setError(result.error || "Failed to load the portfolio");
+      }
+    } catch (err) {
+      console.error("Load error:", err);
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePortfolio = async (name: string, owner: string): Promise<boolean> => {
+    if (!file) return false;
 
-  const formatPercent = (v: number) =>
-    Number.isFinite(v) ? v.toFixed(2) + "%" : "—";
+    const form = new FormData();
+    form.append("file", file);
+    form.append("name", name);
+    if (owner) form.append("owner", owner);
+    if (Object.keys(overrides).length) form.append("mapping", JSON.stringify(overrides));
+
+    try {
+      const res = await fetch("/api/portfolios", { method: "POST", body: form });
+      const result = await res.json();
+      if (!result.success) {
+        setError(result.error || "Failed to save the portfolio");
+        return false;
+      }
+      setPortfolioId(result.portfolio.id);
+      setPortfolioName(result.portfolio.name);
+      return true;
+    } catch (err) {
+      console.error("Save error:", err);
+      setError("Network error. Please try again.");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetch("/api/instruments")
+      .then((res) => res.json())
+      .then((result) => result.success && setSectorOptions([...result.sectors, "Others"]))
+      .catch(() => setSectorOptions([]));
+  }, []);
+
+  // Saved portfolios only: the override is stored with the portfolio
+  const overrideSector = async (code: string, sectorName: string | null) => {
+    if (!portfolioId) return;
+    const overrides = Object.fromEntries(
+      data.filter((s) => s.sectorOverridden && s.code !== code).map((s) => [s.code, s.sector])
+    );
+    if (sectorName) overrides[code] = sectorName;
+
+    try {
+      const res = await fetch(`/api/portfolios/${portfolioId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sectorOverrides: overrides }),
+      });
+      const result = await res.json();
+      if (!result.success) {
+        setError(result.error || "Failed to save the sector");
+        return;
+      }
+      // resetting needs the default sector, which only the server knows
+      if (sectorName) {
+        setData((rows) =>
+          rows.map((s) => (s.code === code ? { ...s, sector: sectorName, sectorOverridden: true } : s))
+        );
+      } else {
+        await openPortfolio(portfolioId);
+      }
+    } catch (err) {
+      console.error("Sector override error:", err);
+      setError("Network error. Please try again.");
+    }
+  };
+
+  // after a symbol choice is remembered: saved portfolios re-price, uploads are sent again
+  const reanalyze = () => {
+    if (portfolioId) {
+      openPortfolio(portfolioId);
+    } else {
+      cache.current.clear();
+      lastUpload.current = 0;
+      uploadFile();
+    }
+  };
+
+  // funds only have a daily NAV, so there is nothing to stream
+  const streamCodes = useMemo(
+    () =>
+      Array.from(new Set(data.filter((s) => s.assetType !== "mutual-fund").map(streamKey))).join(","),
+    [data]
+  );
+
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  useEffect(() => {
+    if (!live || !streamCodes) return;
+    const query = new URLSearchParams({ codes: streamCodes, interval: String(liveInterval) });
+    // a saved portfolio's alert rules are checked as the stream re-prices
+    if (portfolioId) query.set("portfolio", portfolioId);
+    const source = new EventSource(`/api/quotes/stream?${query}`);
+    let clearFlash: ReturnType<typeof setTimeout> | undefined;
+
+    source.addEventListener("prices", (e) => {
+      const { at, marketOpen, quotes } = JSON.parse((e as MessageEvent).data) as {
+        at: string;
+        marketOpen: boolean;
+        quotes: (LiveQuote & { code: string })[];
+      };
+      setLiveStatus({ at, marketOpen });
+      if (!quotes.length) return;
+
+      const changed: Record<string, "up" | "down"> = {};
+      for (const { code, price } of quotes) {
+        const before =
+          lastPrices.current.get(code) ?? dataRef.current.find((s) => streamKey(s) === code)?.currentPrice;
+        if (before !== undefined && before !== price) changed[code] = price > before ? "up" : "down";
+        lastPrices.current.set(code, price);
+      }
+      setLivePrices((prev) => ({
+        ...prev,
+        ...Object.fromEntries(quotes.map(({ code, ...quote }) => [code, quote])),
+      }));
+      setFlashed(changed);
+      clearTimeout(clearFlash);
+      clearFlash = setTimeout(() => setFlashed({}), 1500);
+    });
+    source.addEventListener("status", (e) => setLiveStatus(JSON.parse((e as MessageEvent).data)));
+    source.addEventListener("alerts", () => setAlertsAt(Date.now()));
+
+    return () => {
+      clearTimeout(clearFlash);
+      source.close();
+    };
+  }, [live, liveInterval, streamCodes, portfolioId]);
+
+  // rows with any streamed prices applied; ledger-derived panels keep using `data`
+  const rows = useMemo(() => data.map((s) => withLivePrice(s, livePrices[streamKey(s)])), [data, livePrices]);
+
+  const flashClass = (s: StockData) =>
+    flashed[streamKey(s)] === "up" ? "bg-green-100" : flashed[streamKey(s)] === "down" ? "bg-red-100" : "";
+
+  const unresolved = useMemo(() => data.filter((s) => s.resolution?.candidates), [data]);
 
   const plausiblePrice = (p: number) => p > 0 && p < 1_000_000;
 
 
   const filtered = useMemo(
-    () => (sector === "All" ? data : data.filter((s) => s.sector === sector)),
-    [data, sector]
+    () => (sector === "All" ? rows : rows.filter((s) => s.sector === sector)),
+    [rows, sector]
   );
 
   const totals = useMemo(() => {
@@ -137,9 +427,75 @@ const PortfolioClient: React.FC = () => {
     const current = filtered.reduce((sum, s) => sum + s.updatedPresentValue, 0);
     const gainLoss = filtered.reduce((sum, s) => sum + s.updatedGainLoss, 0);
     const percent = invested ? ((gainLoss / invested) * 100).toFixed(2) + "%" : "0%";
+    // closed positions have no row to filter by sector, so they only count in the "All" view
+    const realized =
+      sector === "All"
+        ? realizedGains.reduce((sum, g) => sum + g.gain, 0)
+        : filtered.reduce((sum, s) => sum + (s.realizedGainLoss ?? 0), 0);
 
-    return { invested, current, gainLoss, percent };
-  }, [filtered]);
+    return { invested, current, gainLoss, percent, realized };
+  }, [filtered, sector, realizedGains]);
+
+  // yields are on what's still held; dividends from closed positions count towards the "All" total return
+  const income = useMemo(() => {
+    const received =
+      sector === "All"
+        ? dividends.reduce((sum, d) => sum + d.amount, 0)
+        : filtered.reduce((sum, s) => sum + (s.dividends ?? 0), 0);
+    return {
+      received,
+      ...incomeFigures({
+        investment: totals.invested,
+        value: totals.current,
+        gainLoss: totals.gainLoss,
+        realizedGainLoss: totals.realized,
+        dividends: received,
+        dividendsTtm: filtered.reduce((sum, s) => sum + (s.dividendsTtm ?? 0), 0),
+      }),
+    };
+  }, [filtered, sector, dividends, totals]);
+
+  const taxHoldings = useMemo(
+    () => rows.map((s) => ({ code: s.code, name: s.name, currentPrice: s.currentPrice, lots: s.lots })),
+    [rows]
+  );
+
+  // priced by the resolved ticker, since an ISIN code from a Groww sheet has no history or quote
+  const riskHoldings = useMemo(
+    () => data.map((s) => ({ code: s.ticker ?? s.code, name: s.name, quantity: s.quantity })),
+    [data]
+  );
+
+  // corporate actions go through the ledger, which matches on the holding's own code
+  const ledgerHoldings = useMemo(() => data.map((s) => ({ code: s.code, name: s.name })), [data]);
+
+  const allocationHoldings = useMemo(
+    () =>
+      rows.map((s) => ({
+        code: s.code,
+        name: s.name,
+        sector: s.sector,
+        marketCapBucket: s.marketCapBucket,
+        assetClass: s.assetClass,
+        value: s.updatedPresentValue,
+      })),
+    [rows]
+  );
+
+  const rebalanceHoldings = useMemo(
+    () =>
+      rows.map((s) => ({
+        code: s.code,
+        name: s.name,
+        sector: s.sector,
+        assetType: s.assetType,
+        quantity: s.quantity,
+        currentPrice: s.currentPrice,
+        purchasePrice: s.purchasePrice,
+        lots: s.lots,
+      })),
+    [rows]
+  );
 
   const chart = useMemo(
     () =>
@@ -154,6 +510,53 @@ const PortfolioClient: React.FC = () => {
 
   const sectors = useMemo(() => Array.from(new Set(data.map((s) => s.sector))), [data]);
 
+  // Exports what's on screen: the sector filter and live prices carry over
+  const exportAs = async (format: "xlsx" | "csv" | "html") => {
+    const base = portfolioName ?? file?.name.replace(/\.[^.]+$/, "") ?? "Portfolio";
+    // opened before the request so the report tab isn't caught by the popup blocker
+    const tab = format === "html" ? window.open("", "_blank") : null;
+    setExporting(format);
+    setError("");
+
+    try {
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          name: sector === "All" ? base : `${base} – ${sector}`,
+          holdings: filtered,
+          realizedGainLoss: totals.realized,
+          xirr: sector === "All" ? returns?.xirr ?? null : null,
+        }),
+      });
+      if (!res.ok) {
+        const result = await res.json().catch(() => null);
+        setError(result?.error || "Failed to export the portfolio");
+        tab?.close();
+        return;
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1];
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filename ?? `portfolio.${format}`;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      console.error("Export error:", err);
+      setError("Network error. Please try again.");
+      tab?.close();
+    } finally {
+      setExporting(null);
+    }
+  };
+
 
   return (
     <div className="min-h-screen p-6">
@@ -168,7 +571,7 @@ const PortfolioClient: React.FC = () => {
             <input
               id="file-upload"
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv"
               onChange={onFileChange}
               className="hidden"
             />
@@ -178,7 +581,7 @@ const PortfolioClient: React.FC = () => {
             >
               <Upload className="w-12 h-12 text-gray-400" />
               <p className="text-lg font-medium text-gray-700">
-                {file ? file.name : "Upload Excel File"}
+                {file ? file.name : "Upload Excel or CSV File"}
               </p>
             </label>
           </div>
@@ -205,12 +608,49 @@ const PortfolioClient: React.FC = () => {
           {stats && (
             <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <p className="text-blue-700">
-                Processed {stats.valid} out of {stats.total} stocks
+                Processed {stats.valid} out of {stats.total} stocks ({stats.format})
+                {stats.transactions > 0 && `, ${stats.transactions} ledger transactions applied`}
               </p>
             </div>
           )}
+
+          {issues.length > 0 && <ImportIssuesPanel issues={issues} />}
+          {unresolved.length > 0 && (
+            <UnresolvedSymbolsPanel rows={unresolved} onResolved={reanalyze} />
+          )}
+
+          <SavedPortfolios
+            activeId={portfolioId}
+            canSave={!!file && data.length > 0 && !portfolioId}
+            defaultName={file?.name.replace(/\.[^.]+$/, "") ?? ""}
+            onOpen={openPortfolio}
+            onSave={savePortfolio}
+            onConsolidate={setConsolidatedIds}
+            disabled={loading}
+          />
+
+          {mapping && (
+            <ColumnMappingPanel
+              mapping={mapping}
+              overrides={overrides}
+              onChange={setOverrides}
+              onApply={uploadFile}
+              disabled={loading}
+            />
+          )}
         </div>
 
+        {consolidatedIds && (
+          <ConsolidatedPanel
+            ids={consolidatedIds}
+            onOpen={(id, name) => {
+              setConsolidatedIds(null);
+              openPortfolio(id, name);
+            }}
+            onClose={() => setConsolidatedIds(null)}
+          />
+        )}
+
         {data.length > 0 && (
           <div className="mb-6 flex justify-end">
             <select
@@ -230,10 +670,26 @@ const PortfolioClient: React.FC = () => {
 
         {filtered.length > 0 && (
           <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-            <h2 className="text-2xl font-bold text-gray-800 mb-4">
-              {sector === "All" ? "Portfolio Summary" : `${sector} Sector Summary`}
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h2 className="text-2xl font-bold text-gray-800">
+                {sector === "All" ? "Portfolio Summary" : `${sector} Sector Summary`}
+              </h2>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => exportAs("xlsx")} disabled={!!exporting}>
+                  <Download className="w-4 h-4" />
+                  {exporting === "xlsx" ? "Exporting..." : "XLSX"}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => exportAs("csv")} disabled={!!exporting}>
+                  <Download className="w-4 h-4" />
+                  {exporting === "csv" ? "Exporting..." : "CSV"}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => exportAs("html")} disabled={!!exporting}>
+                  <FileText className="w-4 h-4" />
+                  {exporting === "html" ? "Exporting..." : "Report"}
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               <div className="bg-blue-50 p-4 rounded-lg">
                 <h3 className="text-sm font-medium text-blue-600">Total Investment</h3>
                 <p className="text-2xl font-bold text-blue-800">
@@ -256,7 +712,7 @@ const PortfolioClient: React.FC = () => {
                     totals.gainLoss >= 0 ? "text-green-600" : "text-red-600"
                   }`}
                 >
-                  Total Gain/Loss
+                  Unrealized Gain/Loss
                 </h3>
                 <p
                   className={`text-2xl font-bold ${
@@ -266,6 +722,26 @@ const PortfolioClient: React.FC = () => {
                   {formatCurrency(totals.gainLoss)}
                 </p>
               </div>
+              <div
+                className={`p-4 rounded-lg ${
+                  totals.realized >= 0 ? "bg-green-50" : "bg-red-50"
+                }`}
+              >
+                <h3
+                  className={`text-sm font-medium ${
+                    totals.realized >= 0 ? "text-green-600" : "text-red-600"
+                  }`}
+                >
+                  Realized Gain/Loss
+                </h3>
+                <p
+                  className={`text-2xl font-bold ${
+                    totals.realized >= 0 ? "text-green-800" : "text-red-800"
+                  }`}
+                >
+                  {formatCurrency(totals.realized)}
+                </p>
+              </div>
               <div
                 className={`p-4 rounded-lg ${
                   totals.gainLoss >= 0 ? "bg-green-50" : "bg-red-50"
@@ -287,9 +763,38 @@ const PortfolioClient: React.FC = () => {
                 </p>
               </div>
             </div>
+            {sector === "All" && returns && <ReturnsSummary returns={returns} />}
           </div>
         )}
 
+        {portfolioId && data.length > 0 && (
+          <PerformanceChart portfolioId={portfolioId} pricedAt={pricedAt} />
+        )}
+
+        {portfolioId && data.length > 0 && (
+          <AlertsPanel
+            portfolioId={portfolioId}
+            holdings={riskHoldings}
+            pricedAt={Math.max(pricedAt, alertsAt)}
+          />
+        )}
+
+        {portfolioId && data.length > 0 && (
+          <CorporateActionsPanel
+            portfolioId={portfolioId}
+            holdings={ledgerHoldings}
+            onChange={() => openPortfolio(portfolioId)}
+          />
+        )}
+
+        {data.length > 0 && <AllocationPanel holdings={allocationHoldings} />}
+
+        {data.length > 0 && <RebalancePanel holdings={rebalanceHoldings} />}
+
+        {data.length > 0 && <TaxPanel holdings={taxHoldings} realizedGains={realizedGains} />}
+
+        {data.length > 0 && <RiskPanel holdings={riskHoldings} />}
+
         {chart.length > 0 && (
           <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
             <h2 className="text-2xl font-bold text-gray-800 mb-4">Portfolio Chart</h2>
@@ -310,8 +815,39 @@ const PortfolioClient: React.FC = () => {
 
         {filtered.length > 0 && (
           <div className="bg-white rounded-lg shadow-lg overflow-hidden">
-            <div className="p-6 border-b border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
               <h2 className="text-2xl font-bold text-gray-800">Stock Details</h2>
+              <div className="flex items-center gap-3 text-sm text-gray-500">
+                {live && liveStatus && (
+                  <span>
+                    {liveStatus.marketOpen ? "Updated" : "Market closed · checked"}{" "}
+                    {new Date(liveStatus.at).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata" })} IST
+                  </span>
+                )}
+                <select
+                  value={liveInterval}
+                  onChange={(e) => setLiveInterval(Number(e.target.value))}
+                  className="border rounded-lg px-2 py-1 shadow-sm"
+                  title="Refresh interval"
+                >
+                  {LIVE_INTERVALS.map((seconds) => (
+                    <option key={seconds} value={seconds}>
+                      Every {seconds}s
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  variant={live ? "default" : "outline"}
+                  onClick={() => {
+                    setLive(!live);
+                    setLiveStatus(null);
+                  }}
+                >
+                  <Radio className={`w-4 h-4 ${live ? "animate-pulse" : ""}`} />
+                  {live ? "Live" : "Go live"}
+                </Button>
+              </div>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full">
@@ -328,6 +864,10 @@ const PortfolioClient: React.FC = () => {
                       "Current Value",
                       "Gain/Loss",
                       "Return %",
+                      "Dividends",
+                      "Div. Yield",
+                      "Yield on Cost",
+                      "Total Return",
                       "Status",
                     ].map((h, i) => (
                       <th
@@ -342,68 +882,177 @@ const PortfolioClient: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filtered.map((s, i) => (
-                    <tr key={i} className="hover:bg-gray-50">
-                      <td className="px-4 py-4 text-sm font-medium text-gray-900">{s.name}</td>
-                      <td className="px-4 py-4 text-sm text-gray-500">{s.code}</td>
-                      <td className="px-4 py-4 text-sm text-gray-500">{s.sector}</td>
-                      <td className="px-4 py-4 text-sm text-gray-900 text-right">
-                        ₹{formatNumber(s.purchasePrice)}
-                      </td>
-                      <td className="px-4 py-4 text-sm text-gray-900 text-right">
-                        {formatNumber(s.quantity)}
-                      </td>
-                      <td className="px-4 py-4 text-sm text-gray-900 text-right">
-                        {formatCurrency(s.investment)}
-                      </td>
-                      <td className="px-4 py-4 text-sm text-gray-900 text-right">
-                        {plausiblePrice(s.currentPrice)
-                          ? "₹" + formatNumber(s.currentPrice)
-                          : "—"}
-                      </td>
-                      <td className="px-4 py-4 text-sm text-gray-900 text-right">
-                        {formatCurrency(s.updatedPresentValue)}
-                      </td>
-                      <td
-                        className={`px-4 py-4 text-sm text-right font-medium ${
-                          s.updatedGainLoss >= 0 ? "text-green-600" : "text-red-600"
-                        }`}
+                  {filtered.map((s, i) => {
+                    const figures = incomeFigures({
+                      investment: s.investment,
+                      value: s.updatedPresentValue,
+                      gainLoss: s.updatedGainLoss,
+                      realizedGainLoss: s.realizedGainLoss,
+                      dividends: s.dividends,
+                      dividendsTtm: s.dividendsTtm,
+                    });
+                    return (
+                      <tr
+                        key={i}
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setHistoryStock(s)}
+                        title="Show price history"
                       >
-                        <div className="flex items-center justify-end gap-1">
-                          {s.updatedGainLoss >= 0 ? (
-                            <TrendingUp className="w-4 h-4" />
+                        <td className="px-4 py-4 text-sm font-medium text-gray-900">
+                          {s.name}
+                          {s.assetType && ASSET_TAGS[s.assetType] && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-xs font-normal text-gray-600">
+                              {ASSET_TAGS[s.assetType]}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-500">{s.code}</td>
+                        <td className="px-4 py-4 text-sm text-gray-500">
+                          {portfolioId ? (
+                            <SectorSelect
+                              value={s.sector}
+                              overridden={!!s.sectorOverridden}
+                              options={sectorOptions}
+                              onChange={(next) => overrideSector(s.code, next)}
+                            />
                           ) : (
-                            <TrendingDown className="w-4 h-4" />
+                            s.sector
                           )}
-                          {formatCurrency(Math.abs(s.updatedGainLoss))}
-                        </div>
-                      </td>
-                      <td
-                        className={`px-4 py-4 text-sm text-right font-medium ${
-                          s.updatedGainLoss >= 0 ? "text-green-600" : "text-red-600"
-                        }`}
-                      >
-                        {formatPercent(s.updatedGainLossPercent)}
-                      </td>
-                      <td className="px-4 py-4 text-center">
-                        <span
-                          className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
-                            s.priceStatus === "updated"
-                              ? "bg-green-100 text-green-800"
-                              : "bg-yellow-100 text-yellow-800"
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-900 text-right">
+                          ₹{formatNumber(s.purchasePrice)}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-900 text-right">
+                          {formatNumber(s.quantity)}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-900 text-right">
+                          {formatCurrency(s.investment)}
+                        </td>
+                        <td
+                          className={`px-4 py-4 text-sm text-gray-900 text-right transition-colors duration-700 ${flashClass(s)}`}
+                        >
+                          {plausiblePrice(s.currentPrice)
+                            ? "₹" + formatNumber(s.currentPrice)
+                            : "—"}
+                        </td>
+                        <td
+                          className={`px-4 py-4 text-sm text-gray-900 text-right transition-colors duration-700 ${flashClass(s)}`}
+                        >
+                          {formatCurrency(s.updatedPresentValue)}
+                        </td>
+                        <td
+                          className={`px-4 py-4 text-sm text-right font-medium transition-colors duration-700 ${
+                            s.updatedGainLoss >= 0 ? "text-green-600" : "text-red-600"
+                          } ${flashClass(s)}`}
+                        >
+                          <div className="flex items-center justify-end gap-1">
+                            {s.updatedGainLoss >= 0 ? (
+                              <TrendingUp className="w-4 h-4" />
+                            ) : (
+                              <TrendingDown className="w-4 h-4" />
+                            )}
+                            {formatCurrency(Math.abs(s.updatedGainLoss))}
+                          </div>
+                        </td>
+                        <td
+                          className={`px-4 py-4 text-sm text-right font-medium transition-colors duration-700 ${
+                            s.updatedGainLoss >= 0 ? "text-green-600" : "text-red-600"
+                          } ${flashClass(s)}`}
+                        >
+                          {formatPercent(s.updatedGainLossPercent)}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-900 text-right">
+                          {s.dividends ? formatCurrency(s.dividends) : "—"}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-900 text-right">
+                          {s.dividendsTtm ? fraction(figures.dividendYield) : "—"}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-gray-900 text-right">
+                          {s.dividendsTtm ? fraction(figures.yieldOnCost) : "—"}
+                        </td>
+                        <td
+                          className={`px-4 py-4 text-sm text-right font-medium ${
+                            figures.totalReturn >= 0 ? "text-green-600" : "text-red-600"
                           }`}
+                          title={`${formatCurrency(figures.totalReturn)} with realized gains and dividends`}
                         >
-                          {s.priceStatus === "updated" ? "Live" : "Cached"}
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
+                          {fraction(figures.totalReturnPct)}
+                        </td>
+                        <td className="px-4 py-4 text-center">
+                          <span
+                            title={
+                              s.priceError
+                                ? `Live price failed (${s.priceError.reason}${
+                                    s.priceError.status ? ` ${s.priceError.status}` : ""
+                                  }): ${s.priceError.message}`
+                                : s.cacheStatus
+                                  ? `Cache ${s.cacheStatus}, ${Math.round((s.cacheAgeMs ?? 0) / 1000)}s old`
+                                  : undefined
+                            }
+                            className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                              s.priceStatus !== "updated"
+                                ? "bg-yellow-100 text-yellow-800"
+                                : SESSION_BADGES[s.quoteSession ?? "intraday"].className
+                            }`}
+                          >
+                            {s.priceStatus !== "updated"
+                              ? "Cached"
+                              : SESSION_BADGES[s.quoteSession ?? "intraday"].label}{" "}
+                            ·{" "}
+                            {SOURCE_LABELS[s.priceSource] ?? s.priceSource}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
+                <tfoot className="bg-gray-50 font-medium">
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-gray-900" colSpan={5}>
+                      {sector === "All" ? "Portfolio" : `${sector} sector`}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatCurrency(totals.invested)}</td>
+                    <td />
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatCurrency(totals.current)}</td>
+                    <td
+                      className={`px-4 py-3 text-sm text-right ${
+                        totals.gainLoss >= 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {formatCurrency(totals.gainLoss)}
+                    </td>
+                    <td
+                      className={`px-4 py-3 text-sm text-right ${
+                        totals.gainLoss >= 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {totals.percent}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                      {income.received ? formatCurrency(income.received) : "—"}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{fraction(income.dividendYield)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{fraction(income.yieldOnCost)}</td>
+                    <td
+                      className={`px-4 py-3 text-sm text-right ${
+                        income.totalReturn >= 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                      title={`${formatCurrency(income.totalReturn)} with realized gains and dividends`}
+                    >
+                      {fraction(income.totalReturnPct)}
+                    </td>
+                    <td />
+                  </tr>
+                </tfoot>
               </table>
             </div>
           </div>
         )}
       </div>
+
+      {historyStock && (
+        <PriceHistoryDrawer stock={historyStock} onClose={() => setHistoryStock(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/format";
+
+interface Candle {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+const RANGES = [
+  { range: "1mo", interval: "1d", label: "1M" },
+  { range: "3mo", interval: "1d", label: "3M" },
+  { range: "6mo", interval: "1d", label: "6M" },
+  { range: "1y", interval: "1d", label: "1Y" },
+  { range: "5y", interval: "1wk", label: "5Y" },
+];
+
+interface Props {
+  stock: { name: string; code: string; ticker?: string; purchasePrice: number };
+  onClose: () => void;
+}
+
+const PriceHistoryDrawer: React.FC<Props> = ({ stock, onClose }) => {
+  const [selected, setSelected] = useState(RANGES[3]);
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const query = new URLSearchParams({
+      // the resolved ticker; an ISIN code from a Groww sheet has no history of its own
+      symbol: stock.ticker ?? stock.code,
+      range: selected.range,
+      interval: selected.interval,
+    });
+    setLoading(true);
+
+    fetch(`/api/history?${query}`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setCandles(result.candles);
+          setError("");
+        } else {
+          setCandles([]);
+          setError(result.error || "No price history available");
+        }
+      })
+      .catch((err) => {
+        if (err.name !== "AbortError") setError("Network error while loading price history");
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, [stock.ticker, stock.code, selected]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-2xl bg-white shadow-xl p-6 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">{stock.name}</h2>
+            <p className="text-sm text-gray-500">
+              {stock.code} · bought at {formatCurrency(stock.purchasePrice)}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex gap-1 mb-4">
+          {RANGES.map((r) => (
+            <Button
+              key={r.label}
+              size="sm"
+              variant={r === selected ? "default" : "outline"}
+              onClick={() => setSelected(r)}
+            >
+              {r.label}
+            </Button>
+          ))}
+        </div>
+
+        {error && <p className="text-red-700 mb-4">{error}</p>}
+        {loading && !candles.length && <p className="text-sm text-gray-500">Loading…</p>}
+
+        {candles.length > 0 && (
+          <ResponsiveContainer width="100%" height={360}>
+            <LineChart data={candles}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" minTickGap={24} />
+              <YAxis domain={["auto", "auto"]} />
+              <Tooltip formatter={(v: number) => formatCurrency(v)} />
+              <Line type="monotone" dataKey="close" name="Close" stroke="#8884d8" dot={false} />
+              {stock.purchasePrice > 0 && (
+                <ReferenceLine
+                  y={stock.purchasePrice}
+                  stroke="#ff6961"
+                  strokeDasharray="5 3"
+                  ifOverflow="extendDomain"
+                  label={{ value: "Purchase price", position: "insideTopLeft", fill: "#ff6961" }}
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default PriceHistoryDrawer;
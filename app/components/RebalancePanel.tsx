@@ -0,0 +1,280 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import type { Lot } from "./TaxPanel";
+
+type Basis = "stock" | "sector";
+
+interface Trade {
+  code: string;
+  name: string;
+  price: number;
+  currentQuantity: number;
+  targetQuantity: number;
+  currentWeight: number;
+  targetWeight: number;
+  action: "BUY" | "SELL" | "HOLD";
+  shares: number;
+  amount: number;
+  gains?: { stcg: number; ltcg: number; unknown: number };
+  estimatedTax?: number;
+}
+
+interface RebalancePlan {
+  total: number;
+  cash: { injected: number; remaining: number };
+  buys: number;
+  sells: number;
+  trades: Trade[];
+  tax: { estimatedTax: number; exemptionUsed: number };
+  unpriced: string[];
+}
+
+interface Props {
+  holdings: {
+    code: string;
+    name: string;
+    sector: string;
+    assetType?: "equity" | "etf" | "mutual-fund";
+    quantity: number;
+    currentPrice: number;
+    purchasePrice: number;
+    lots?: Lot[];
+  }[];
+}
+
+const ACTION_STYLES: Record<Trade["action"], string> = {
+  BUY: "text-green-700",
+  SELL: "text-red-700",
+  HOLD: "text-gray-500",
+};
+
+const pct = (fraction: number) => formatPercent(fraction * 100);
+
+const RebalancePanel: React.FC<Props> = ({ holdings }) => {
+  const [basis, setBasis] = useState<Basis>("stock");
+  // percentages as typed; an empty box leaves that row alone
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [cash, setCash] = useState(0);
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const groups = useMemo(() => {
+    const total = holdings.reduce((sum, h) => sum + h.quantity * h.currentPrice, 0);
+    const byKey = new Map<string, { key: string; label: string; value: number }>();
+    for (const h of holdings) {
+      const key = basis === "stock" ? h.code : h.sector;
+      const entry = byKey.get(key) ?? { key, label: basis === "stock" ? h.name : h.sector, value: 0 };
+      entry.value += h.quantity * h.currentPrice;
+      byKey.set(key, entry);
+    }
+    return Array.from(byKey.values())
+      .map((g) => ({ ...g, weight: total ? g.value / total : 0 }))
+      .sort((a, b) => b.value - a.value);
+  }, [holdings, basis]);
+
+  const targetSum = Object.values(targets).reduce((sum, v) => sum + (v.trim() ? Number(v) || 0 : 0), 0);
+
+  const changeBasis = (next: Basis) => {
+    setBasis(next);
+    setTargets({});
+    setPlan(null);
+  };
+
+  const fillCurrent = () =>
+    setTargets(Object.fromEntries(groups.map((g) => [g.key, (g.weight * 100).toFixed(1)])));
+
+  const calculate = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/rebalance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          holdings,
+          basis,
+          targets: Object.fromEntries(
+            Object.entries(targets)
+              .filter(([, v]) => v.trim())
+              .map(([k, v]) => [k, Number(v) / 100])
+          ),
+          cash,
+        }),
+      });
+      const result = await res.json();
+      if (result.success) {
+        setPlan(result.plan);
+        setError("");
+      } else {
+        setError(result.error || "Failed to compute the rebalance");
+      }
+    } catch {
+      setError("Network error while computing the rebalance");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const trades = plan?.trades.filter((t) => t.action !== "HOLD") ?? [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Rebalance</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Target weights per
+          <select
+            value={basis}
+            onChange={(e) => changeBasis(e.target.value as Basis)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          >
+            <option value="stock">Stock</option>
+            <option value="sector">Sector</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Cash to add (₹)
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={cash}
+            onChange={(e) => setCash(Math.max(0, Number(e.target.value)))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        <div className="flex items-end gap-2">
+          <Button variant="outline" onClick={fillCurrent}>
+            Start from current
+          </Button>
+          <Button onClick={calculate} disabled={loading || targetSum === 0}>
+            {loading ? "Calculating…" : "Calculate trades"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-2 max-h-80 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {[basis === "stock" ? "Stock" : "Sector", "Value", "Current", "Target %"].map((h, i) => (
+                <th
+                  key={h}
+                  className={`px-4 py-3 font-medium text-gray-500 uppercase tracking-wider ${
+                    i > 0 ? "text-right" : "text-left"
+                  }`}
+                >
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {groups.map((g) => (
+              <tr key={g.key}>
+                <td className="px-4 py-2 text-gray-900">{g.label}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(g.value)}</td>
+                <td className="px-4 py-2 text-right">{pct(g.weight)}</td>
+                <td className="px-4 py-2 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={targets[g.key] ?? ""}
+                    placeholder="keep"
+                    onChange={(e) => setTargets({ ...targets, [g.key]: e.target.value })}
+                    className="border rounded px-1 py-0.5 w-20 text-right"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className={`text-xs mb-4 ${targetSum > 100 ? "text-red-700" : "text-gray-500"}`}>
+        Targets add up to {targetSum.toFixed(1)}% of holdings plus added cash. Rows left blank are kept
+        as they are; anything not allocated stays as cash.
+      </p>
+
+      {error && <p className="text-red-700 mb-4">{error}</p>}
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+            <div className="bg-green-50 p-3 rounded-lg">
+              <p className="text-green-600">Buys</p>
+              <p className="text-lg font-bold text-green-800">{formatCurrency(plan.buys)}</p>
+            </div>
+            <div className="bg-red-50 p-3 rounded-lg">
+              <p className="text-red-600">Sells</p>
+              <p className="text-lg font-bold text-red-800">{formatCurrency(plan.sells)}</p>
+            </div>
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <p className="text-blue-600">Cash left over</p>
+              <p className="text-lg font-bold text-blue-800">{formatCurrency(plan.cash.remaining)}</p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-gray-600">Estimated tax on sells</p>
+              <p className="text-lg font-bold text-gray-800">{formatCurrency(plan.tax.estimatedTax)}</p>
+            </div>
+          </div>
+
+          {trades.length === 0 ? (
+            <p className="text-sm text-gray-500">Already on target: no whole-share trades needed.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Stock", "Action", "Shares", "Price", "Amount", "Weight", "Gain", "Est. tax"].map((h, i) => (
+                      <th
+                        key={h}
+                        className={`px-4 py-3 font-medium text-gray-500 uppercase tracking-wider ${
+                          i > 1 ? "text-right" : "text-left"
+                        }`}
+                      >
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {trades.map((t, i) => (
+                    <tr key={i}>
+                      <td className="px-4 py-2 text-gray-900">{t.name}</td>
+                      <td className={`px-4 py-2 font-medium ${ACTION_STYLES[t.action]}`}>{t.action}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(t.shares)}</td>
+                      <td className="px-4 py-2 text-right">₹{formatNumber(t.price)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(t.amount)}</td>
+                      <td className="px-4 py-2 text-right text-gray-500">
+                        {pct(t.currentWeight)} → {pct(t.targetWeight)}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {t.gains ? formatCurrency(t.gains.stcg + t.gains.ltcg + t.gains.unknown) : "—"}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {t.estimatedTax == null ? "—" : formatCurrency(t.estimatedTax)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                Sells use the oldest lots first. Per-trade tax ignores the yearly LTCG exemption; the
+                total above applies it once
+                {plan.tax.exemptionUsed > 0 && ` (${formatCurrency(plan.tax.exemptionUsed)} used)`}.
+                {plan.unpriced.length > 0 && ` Left out without a price: ${plan.unpriced.join(", ")}.`}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RebalancePanel;
@@ -0,0 +1,68 @@
+"use client";
+import React from "react";
+import { formatPercent } from "@/lib/format";
+
+export interface PortfolioReturns {
+  asOf: string;
+  xirr: number | null;
+  cagr: number | null;
+  years: number | null;
+  twr: { from: string; to: string; return: number; annualized: number | null } | null;
+  incomplete: string[];
+}
+
+const pct = (v: number | null | undefined) => (v == null ? "—" : formatPercent(v * 100));
+
+const Tile: React.FC<{ label: string; value: number | null | undefined; hint: string }> = ({
+  label,
+  value,
+  hint,
+}) => {
+  const positive = (value ?? 0) >= 0;
+  return (
+    <div className={`p-4 rounded-lg ${positive ? "bg-green-50" : "bg-red-50"}`} title={hint}>
+      <h3 className={`text-sm font-medium ${positive ? "text-green-600" : "text-red-600"}`}>{label}</h3>
+      <p className={`text-2xl font-bold ${positive ? "text-green-800" : "text-red-800"}`}>{pct(value)}</p>
+    </div>
+  );
+};
+
+const ReturnsSummary: React.FC<{ returns: PortfolioReturns }> = ({ returns }) => (
+  <div className="mt-4">
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <Tile
+        label="XIRR"
+        value={returns.xirr}
+        hint="Annualized money-weighted return from every dated buy, sale and today's value"
+      />
+      <Tile
+        label="CAGR"
+        value={returns.cagr}
+        hint="Compound annual growth of open positions over their cost-weighted holding period"
+      />
+      <Tile
+        label="Time-weighted return"
+        value={returns.twr?.return}
+        hint={
+          returns.twr
+            ? `From daily snapshots, ${returns.twr.from} to ${returns.twr.to}`
+            : "Needs at least two daily snapshots of a saved portfolio"
+        }
+      />
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="text-sm font-medium text-blue-600">Average holding period</h3>
+        <p className="text-2xl font-bold text-blue-800">
+          {returns.years == null ? "—" : `${returns.years.toFixed(1)} yrs`}
+        </p>
+      </div>
+    </div>
+    {returns.incomplete.length > 0 && (
+      <p className="text-sm text-gray-500 mt-2">
+        XIRR and CAGR need a purchase date and current price for every holding; missing for{" "}
+        {returns.incomplete.join(", ")}.
+      </p>
+    )}
+  </div>
+);
+
+export default ReturnsSummary;
@@ -0,0 +1,225 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { formatPercent } from "@/lib/format";
+
+interface RiskMetrics {
+  volatility: number | null;
+  beta: number | null;
+  maxDrawdown: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  observations: number;
+}
+
+interface RiskReport {
+  from: string | null;
+  to: string | null;
+  portfolio: RiskMetrics;
+  holdings: (RiskMetrics & { code: string; name: string })[];
+  correlation: { codes: string[]; matrix: (number | null)[][] };
+}
+
+interface Props {
+  holdings: { code: string; name: string; quantity: number }[];
+}
+
+const RANGES = [
+  { value: "6mo", label: "6 months" },
+  { value: "1y", label: "1 year" },
+  { value: "2y", label: "2 years" },
+];
+
+const pct = (v: number | null) => (v == null ? "—" : formatPercent(v * 100));
+const ratio = (v: number | null) => (v == null ? "—" : v.toFixed(2));
+
+// -1 red, 0 white, +1 blue
+function heat(v: number | null): string {
+  if (v == null) return "#f3f4f6";
+  const strength = Math.round(Math.min(1, Math.abs(v)) * 60);
+  return v >= 0 ? `hsl(215 80% ${100 - strength}%)` : `hsl(0 80% ${100 - strength}%)`;
+}
+
+const RiskPanel: React.FC<Props> = ({ holdings }) => {
+  const [range, setRange] = useState("1y");
+  const [riskFree, setRiskFree] = useState(6.5);
+  const [benchmarks, setBenchmarks] = useState<{ id: string; label: string }[]>([]);
+  const [benchmark, setBenchmark] = useState("nifty50");
+  const [report, setReport] = useState<RiskReport | null>(null);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch("/api/benchmarks")
+      .then((res) => res.json())
+      .then((result) => result.success && setBenchmarks(result.benchmarks))
+      .catch(() => setBenchmarks([]));
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetch("/api/risk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        holdings,
+        benchmark: benchmark || null,
+        range,
+        riskFreeRate: riskFree / 100,
+      }),
+      signal: controller.signal,
+    })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setReport(result.report);
+          setMissing(result.missing.map((m: { code: string }) => m.code));
+          setError("");
+        } else {
+          setError(result.error || "Failed to compute risk");
+        }
+      })
+      .catch((err) => {
+        if (err.name !== "AbortError") setError("Network error while computing risk");
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, [holdings, benchmark, range, riskFree]);
+
+  const rows = report
+    ? [{ ...report.portfolio, code: "", name: "Portfolio" }, ...report.holdings]
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Risk</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Period
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          >
+            {RANGES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Beta against
+          <select
+            value={benchmark}
+            onChange={(e) => setBenchmark(e.target.value)}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          >
+            <option value="">None</option>
+            {benchmarks.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          Risk-free rate (%)
+          <input
+            type="number"
+            min={0}
+            step={0.25}
+            value={riskFree}
+            onChange={(e) => setRiskFree(Number(e.target.value))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-red-700 mb-4">{error}</p>}
+      {loading && !report && <p className="text-sm text-gray-500">Loading price history…</p>}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {["", "Volatility", "Beta", "Max drawdown", "Sharpe", "Sortino"].map((h, i) => (
+                  <th
+                    key={i}
+                    className={`px-4 py-3 font-medium text-gray-500 uppercase tracking-wider ${
+                      i > 0 ? "text-right" : "text-left"
+                    }`}
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((r) => (
+                <tr key={r.code || "portfolio"} className={r.code ? "" : "font-semibold"}>
+                  <td className="px-4 py-2 text-gray-900">{r.name}</td>
+                  <td className="px-4 py-2 text-right">{pct(r.volatility)}</td>
+                  <td className="px-4 py-2 text-right">{ratio(r.beta)}</td>
+                  <td className="px-4 py-2 text-right text-red-700">
+                    {r.maxDrawdown == null ? "—" : pct(-r.maxDrawdown)}
+                  </td>
+                  <td className="px-4 py-2 text-right">{ratio(r.sharpe)}</td>
+                  <td className="px-4 py-2 text-right">{ratio(r.sortino)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Daily closes {report?.from} to {report?.to}; the portfolio row values today&apos;s
+            quantities over that period.
+            {missing.length > 0 && ` No price history for ${missing.join(", ")}.`}
+          </p>
+        </div>
+      )}
+
+      {report && report.correlation.codes.length > 1 && (
+        <div className="overflow-x-auto">
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Correlation</h3>
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {report.correlation.codes.map((c) => (
+                  <th key={c} className="px-2 py-1 font-medium text-gray-500">
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.correlation.matrix.map((row, i) => (
+                <tr key={report.correlation.codes[i]}>
+                  <th className="px-2 py-1 font-medium text-gray-500 text-left">
+                    {report.correlation.codes[i]}
+                  </th>
+                  {row.map((v, j) => (
+                    <td
+                      key={j}
+                      className="px-2 py-1 text-center w-14"
+                      style={{ backgroundColor: heat(v) }}
+                    >
+                      {v == null ? "—" : v.toFixed(2)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskPanel;
@@ -0,0 +1,178 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { FolderOpen, Layers, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PortfolioSummary {
+  id: string;
+  name: string;
+  owner?: string;
+  updatedAt: string;
+  holdingsCount: number;
+  transactionsCount: number;
+}
+
+interface Props {
+  activeId: string | null;
+  canSave: boolean;
+  defaultName: string;
+  onOpen: (id: string, name: string) => void;
+  onSave: (name: string, owner: string) => Promise<boolean>;
+  // the ticked portfolios, or all of them when none are ticked
+  onConsolidate: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+const SavedPortfolios: React.FC<Props> = ({
+  activeId,
+  canSave,
+  defaultName,
+  onOpen,
+  onSave,
+  onConsolidate,
+  disabled,
+}) => {
+  const [portfolios, setPortfolios] = useState<PortfolioSummary[]>([]);
+  const [name, setName] = useState("");
+  const [owner, setOwner] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/portfolios");
+      const result = await res.json();
+      if (result.success) setPortfolios(result.portfolios);
+    } catch (err) {
+      console.error("Failed to list portfolios:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    setName(defaultName);
+  }, [defaultName]);
+
+  const save = async () => {
+    setSaving(true);
+    if (await onSave(name.trim() || defaultName, owner.trim())) await refresh();
+    setSaving(false);
+  };
+
+  const tagOwner = async (p: PortfolioSummary, next: string) => {
+    if (next.trim() === (p.owner ?? "")) return;
+    await fetch(`/api/portfolios/${p.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ owner: next }),
+    }).catch((err) => console.error("Failed to tag portfolio:", err));
+    await refresh();
+  };
+
+  const toggle = (id: string) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+
+  const owners = Array.from(new Set(portfolios.map((p) => p.owner).filter(Boolean))) as string[];
+
+  const remove = async (p: PortfolioSummary) => {
+    if (!window.confirm(`Delete portfolio "${p.name}"?`)) return;
+    await fetch(`/api/portfolios/${p.id}`, { method: "DELETE" });
+    await refresh();
+  };
+
+  if (!portfolios.length && !canSave) return null;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-gray-700 font-medium">Saved portfolios</h3>
+        {portfolios.length > 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onConsolidate(selected.filter((id) => portfolios.some((p) => p.id === id)))}
+            disabled={disabled}
+          >
+            <Layers className="w-4 h-4" />
+            {selected.length ? `Consolidate ${selected.length}` : "Consolidate all"}
+          </Button>
+        )}
+      </div>
+      <datalist id="portfolio-owners">
+        {owners.map((o) => (
+          <option key={o} value={o} />
+        ))}
+      </datalist>
+
+      {canSave && (
+        <div className="flex gap-2 mb-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Portfolio name"
+            className="border rounded-lg px-3 py-1 shadow-sm flex-1"
+          />
+          <input
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            placeholder="Owner (Self, Spouse, HUF...)"
+            list="portfolio-owners"
+            className="border rounded-lg px-3 py-1 shadow-sm w-56"
+          />
+          <Button variant="secondary" onClick={save} disabled={saving || disabled}>
+            <Save className="w-4 h-4" />
+            Save
+          </Button>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {portfolios.map((p) => (
+          <li key={p.id} className="flex items-center justify-between py-2">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={selected.includes(p.id)}
+                onChange={() => toggle(p.id)}
+                title="Include in the consolidated view"
+              />
+              <div>
+                <p className={`text-sm ${p.id === activeId ? "font-bold text-blue-700" : "text-gray-800"}`}>
+                  {p.name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {p.holdingsCount} holdings
+                  {p.transactionsCount > 0 && `, ${p.transactionsCount} transactions`} · updated{" "}
+                  {new Date(p.updatedAt).toLocaleString("en-IN")}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <input
+                key={p.owner ?? ""}
+                defaultValue={p.owner ?? ""}
+                onBlur={(e) => tagOwner(p, e.target.value)}
+                placeholder="Owner"
+                list="portfolio-owners"
+                className="border rounded-lg px-2 py-1 shadow-sm text-sm w-32"
+                title="Owner"
+              />
+              <Button variant="outline" size="sm" onClick={() => onOpen(p.id, p.name)} disabled={disabled}>
+                <FolderOpen className="w-4 h-4" />
+                Open
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => remove(p)} disabled={disabled}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedPortfolios;
@@ -0,0 +1,31 @@
+"use client";
+import React from "react";
+
+interface Props {
+  value: string;
+  overridden: boolean;
+  options: string[];
+  // null restores the sheet's or the instrument master's sector
+  onChange: (sector: string | null) => void;
+}
+
+const RESET = "__default__";
+
+const SectorSelect: React.FC<Props> = ({ value, overridden, options, onChange }) => (
+  <select
+    value={value}
+    onClick={(e) => e.stopPropagation()}
+    onChange={(e) => onChange(e.target.value === RESET ? null : e.target.value)}
+    className={`border rounded px-1 py-0.5 text-sm bg-white ${overridden ? "border-blue-400" : ""}`}
+    title={overridden ? "Sector set by you" : "Sector from the sheet or instrument master"}
+  >
+    {Array.from(new Set([value, ...options])).map((s) => (
+      <option key={s} value={s}>
+        {s}
+      </option>
+    ))}
+    {overridden && <option value={RESET}>Reset to default</option>}
+  </select>
+);
+
+export default SectorSelect;
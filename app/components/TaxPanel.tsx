@@ -0,0 +1,171 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { formatCurrency } from "@/lib/format";
+
+export interface Lot {
+  date?: string;
+  quantity: number;
+  cost: number;
+}
+
+export interface RealizedGain {
+  code: string;
+  name: string;
+  buyDate?: string;
+  sellDate: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  gain: number;
+}
+
+interface TaxEstimate {
+  stcg: number;
+  ltcg: number;
+  unknown: number;
+  total: number;
+  taxableLtcg: number;
+  exemptionUsed: number;
+  estimatedTax: number;
+}
+
+interface TaxReport {
+  asOf: string;
+  realized: TaxEstimate;
+  unrealized: TaxEstimate;
+  years: (TaxEstimate & { year: string })[];
+}
+
+interface Props {
+  holdings: { code: string; name: string; currentPrice: number; lots?: Lot[] }[];
+  realizedGains: RealizedGain[];
+}
+
+const TaxPanel: React.FC<Props> = ({ holdings, realizedGains }) => {
+  const [stcgRate, setStcgRate] = useState(20);
+  const [ltcgRate, setLtcgRate] = useState(12.5);
+  const [exemption, setExemption] = useState(125000);
+  const [report, setReport] = useState<TaxReport | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch("/api/tax", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        realizedGains,
+        holdings,
+        config: { stcgRate: stcgRate / 100, ltcgRate: ltcgRate / 100, ltcgExemption: exemption },
+      }),
+      signal: controller.signal,
+    })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success) {
+          setReport(result.report);
+          setError("");
+        } else {
+          setError(result.error || "Failed to compute tax");
+        }
+      })
+      .catch((err) => {
+        if (err.name !== "AbortError") setError("Network error while computing tax");
+      });
+
+    return () => controller.abort();
+  }, [holdings, realizedGains, stcgRate, ltcgRate, exemption]);
+
+  const rows: (TaxEstimate & { label: string })[] = report
+    ? [
+        ...report.years.map((y) => ({ ...y, label: y.year })),
+        { ...report.unrealized, label: `Unrealized (if sold ${report.asOf})` },
+      ]
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Tax</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          STCG rate (%)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={stcgRate}
+            onChange={(e) => setStcgRate(Number(e.target.value))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          LTCG rate (%)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={ltcgRate}
+            onChange={(e) => setLtcgRate(Number(e.target.value))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+        <label className="flex flex-col text-sm text-gray-600 gap-1">
+          LTCG exemption (₹ per year)
+          <input
+            type="number"
+            min={0}
+            step={5000}
+            value={exemption}
+            onChange={(e) => setExemption(Number(e.target.value))}
+            className="border rounded-lg px-2 py-1 shadow-sm"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-red-700 mb-4">{error}</p>}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Period", "STCG", "LTCG", "Unclassified", "Exemption used", "Estimated tax"].map(
+                  (h, i) => (
+                    <th
+                      key={i}
+                      className={`px-4 py-3 font-medium text-gray-500 uppercase tracking-wider ${
+                        i > 0 ? "text-right" : "text-left"
+                      }`}
+                    >
+                      {h}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((r, i) => (
+                <tr key={i} className={i === rows.length - 1 ? "bg-gray-50 italic" : ""}>
+                  <td className="px-4 py-3 text-gray-900">{r.label}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(r.stcg)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(r.ltcg)}</td>
+                  <td className="px-4 py-3 text-right text-gray-500">{formatCurrency(r.unknown)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(r.exemptionUsed)}</td>
+                  <td className="px-4 py-3 text-right font-medium">{formatCurrency(r.estimatedTax)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Holdings without a purchase date are unclassified and left out of the estimate. Losses are
+            not carried forward between years.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxPanel;
@@ -0,0 +1,141 @@
+"use client";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+export interface Candidate {
+  symbol: string;
+  name: string;
+  isin?: string;
+  bseCode?: string;
+  score: number;
+  matchedBy: string;
+}
+
+interface Row {
+  code: string;
+  name: string;
+  isin?: string;
+  resolution?: { matchedBy: string | null; candidates?: Candidate[] };
+}
+
+interface Props {
+  rows: Row[];
+  // called once a choice is remembered, so the caller can re-run the analysis
+  onResolved: () => void;
+}
+
+const UnresolvedRow: React.FC<{ row: Row; onResolved: () => void }> = ({ row, onResolved }) => {
+  const [candidates, setCandidates] = useState(row.resolution?.candidates ?? []);
+  const [symbol, setSymbol] = useState(candidates[0]?.symbol ?? "");
+  const [search, setSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const find = async () => {
+    if (!search.trim()) return;
+    try {
+      const res = await fetch(`/api/symbols/resolve?${new URLSearchParams({ name: search, code: search })}`);
+      const result = await res.json();
+      if (result.success) {
+        setCandidates(result.candidates);
+        setSymbol(result.candidates[0]?.symbol ?? search.trim().toUpperCase());
+      }
+    } catch {
+      setError("Network error while searching");
+    }
+  };
+
+  const confirm = async () => {
+    if (!symbol) return;
+    setSaving(true);
+    try {
+      const res = await fetch("/api/symbols/aliases", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: row.code, isin: row.isin, name: row.name, symbol }),
+      });
+      const result = await res.json();
+      if (result.success) onResolved();
+      else setError(result.error || "Failed to save the choice");
+    } catch {
+      setError("Network error while saving");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <tr>
+      <td className="px-2 py-2 text-gray-900">
+        {row.name}
+        <div className="text-xs text-gray-500">
+          {row.code}
+          {row.isin && row.isin !== row.code ? ` · ${row.isin}` : ""}
+        </div>
+      </td>
+      <td className="px-2 py-2">
+        <select
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value)}
+          className="border rounded px-1 py-0.5 text-sm bg-white max-w-xs"
+        >
+          {!candidates.some((c) => c.symbol === symbol) && symbol && <option value={symbol}>{symbol}</option>}
+          {!symbol && <option value="">No match — search below</option>}
+          {candidates.map((c) => (
+            <option key={c.symbol} value={c.symbol}>
+              {c.symbol} · {c.name} ({Math.round(c.score * 100)}%)
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-1 mt-1">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && find()}
+            placeholder="Name or ticker"
+            className="border rounded px-1 py-0.5 text-sm"
+          />
+          <Button size="sm" variant="outline" onClick={find}>
+            Search
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-700 mt-1">{error}</p>}
+      </td>
+      <td className="px-2 py-2 text-right">
+        <Button size="sm" onClick={confirm} disabled={!symbol || saving}>
+          {saving ? "Saving…" : "Use this"}
+        </Button>
+      </td>
+    </tr>
+  );
+};
+
+// Rows that could not be priced and matched nothing in the instrument master
+const UnresolvedSymbolsPanel: React.FC<Props> = ({ rows, onResolved }) => (
+  <details open className="mt-4 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+    <summary className="cursor-pointer text-orange-800 font-medium">
+      Unrecognized symbols: {rows.length}
+    </summary>
+    <p className="text-sm text-gray-600 mt-2">
+      Pick the right ticker for each row. Your choice is remembered for future imports.
+    </p>
+    <div className="overflow-x-auto mt-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 uppercase tracking-wider">
+            <th className="px-2 py-2">Holding</th>
+            <th className="px-2 py-2">Ticker</th>
+            <th className="px-2 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-orange-100">
+          {rows.map((row) => (
+            <UnresolvedRow key={row.code} row={row} onResolved={onResolved} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </details>
+);
+
+export default UnresolvedSymbolsPanel;
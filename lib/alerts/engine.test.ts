@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { StockData } from "../types";
+import type { Alert, Notifier } from "./index";
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "alerts-"));
+let alerts: typeof import("./index");
+
+beforeAll(async () => {
+  // both are read when the modules load
+  vi.stubEnv("PORTFOLIO_DATA_DIR", dataDir);
+  vi.stubEnv("SKIP_NON_TRADING_DAYS", "false");
+  alerts = await import("./index");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const holding = (price: number) =>
+  ({
+    code: "INFY",
+    name: "Infosys",
+    quantity: 10,
+    investment: 14000,
+    currentPrice: price,
+    priceStatus: "updated",
+  }) as StockData;
+
+// Slow enough that two checks overlap while the first is still delivering
+const slowNotifier = (delivered: Alert[]): Notifier => ({
+  name: "test",
+  notify: async (alert) => {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    delivered.push(alert);
+  },
+});
+
+describe("checkAlerts", () => {
+  it("raises and delivers an alert once when checks overlap", async () => {
+    await alerts.addRule("p1", { kind: "price", code: "INFY", op: "above", price: 1500 });
+    const delivered: Alert[] = [];
+    const notifier = slowNotifier(delivered);
+
+    const [first, second] = await Promise.all([
+      alerts.checkAlerts("p1", [holding(1520)], [notifier]),
+      alerts.checkAlerts("p1", [holding(1520)], [notifier]),
+    ]);
+
+    expect(first.length + second.length).toBe(1);
+    expect(delivered).toHaveLength(1);
+    expect(await alerts.listAlerts({ portfolioId: "p1" })).toHaveLength(1);
+  });
+
+  it("fires again once the condition has stopped holding and starts again", async () => {
+    await alerts.addRule("p2", { kind: "price", code: "INFY", op: "above", price: 1500 });
+    const notifier = slowNotifier([]);
+
+    expect(await alerts.checkAlerts("p2", [holding(1520)], [notifier])).toHaveLength(1);
+    expect(await alerts.checkAlerts("p2", [holding(1530)], [notifier])).toHaveLength(0);
+    expect(await alerts.checkAlerts("p2", [holding(1480)], [notifier])).toHaveLength(0);
+    expect(await alerts.checkAlerts("p2", [holding(1510)], [notifier])).toHaveLength(1);
+  });
+});
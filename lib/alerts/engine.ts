@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import { isTradingDay, istTime, SKIP_NON_TRADING_DAYS } from "../market";
+import { getSnapshotStore } from "../storage";
+import type { StockData } from "../types";
+import { getNotifiers, type Notifier } from "./notifiers";
+import { describeRule, evaluateRule } from "./rules";
+import { claimRuleHits, listRules, recordAlerts } from "./store";
+import type { Alert } from "./types";
+
+// Prices from the latest snapshot before today, for providers that don't report the last close
+async function previousPrices(portfolioId: string, today: string): Promise<Map<string, number>> {
+  const earlier = (await getSnapshotStore().list(portfolioId)).filter((s) => s.date < today);
+  const last = earlier[earlier.length - 1];
+  return new Map(last?.holdings.filter((h) => h.price > 0).map((h) => [h.code, h.price]) ?? []);
+}
+
+async function deliver(alert: Alert, notifiers: Notifier[]): Promise<Alert> {
+  const results = await Promise.allSettled(notifiers.map((n) => n.notify(alert)));
+  return {
+    ...alert,
+    deliveries: results.map((r, i) => ({
+      notifier: notifiers[i].name,
+      ok: r.status === "fulfilled",
+      error: r.status === "rejected" ? String(r.reason instanceof Error ? r.reason.message : r.reason) : undefined,
+    })),
+  };
+}
+
+// Runs a saved portfolio's enabled rules against freshly priced holdings. Alerts are raised for
+// conditions that have started to hold since the last check, stored, and passed to the notifiers.
+// Rule state is claimed before anything is delivered, so concurrent checks of one portfolio never
+// raise the same alert twice. Nothing is checked on weekends and exchange holidays, when prices
+// can't have moved.
+export async function checkAlerts(
+  portfolioId: string,
+  data: StockData[],
+  notifiers: Notifier[] = getNotifiers()
+): Promise<Alert[]> {
+  const now = new Date();
+  const today = istTime(now).date;
+  if (SKIP_NON_TRADING_DAYS && !isTradingDay(today)) return [];
+
+  const rules = (await listRules(portfolioId)).filter((r) => r.enabled);
+  if (!rules.length) return [];
+
+  const previous = rules.some((r) => r.condition.kind === "dayChange")
+    ? await previousPrices(portfolioId, today)
+    : new Map<string, number>();
+
+  const claimed = await claimRuleHits(
+    portfolioId,
+    (rule) => evaluateRule(rule.condition, data, previous),
+    now.toISOString()
+  );
+
+  const raised: Alert[] = [];
+  for (const { rule, fresh } of claimed) {
+    for (const hit of fresh) {
+      raised.push({
+        id: randomUUID(),
+        ruleId: rule.id,
+        portfolioId,
+        triggeredAt: now.toISOString(),
+        code: hit.code,
+        message: `${describeRule(rule.condition)}: ${hit.message}`,
+        value: hit.value,
+        read: false,
+        deliveries: [],
+      });
+    }
+  }
+
+  const delivered = await Promise.all(raised.map((alert) => deliver(alert, notifiers)));
+  await recordAlerts(delivered);
+  return delivered;
+}
@@ -0,0 +1,14 @@
+export type { Alert, AlertRule, Delivery, RuleCondition } from "./types";
+export { describeRule, evaluateRule, readRuleCondition, type RuleHit } from "./rules";
+export { createWebhookNotifier, getNotifiers, type Notifier } from "./notifiers";
+export {
+  addRule,
+  deleteRule,
+  deleteRulesForPortfolio,
+  listAlerts,
+  listRules,
+  markAlertsRead,
+  recordAlerts,
+  setRuleEnabled,
+} from "./store";
+export { checkAlerts } from "./engine";
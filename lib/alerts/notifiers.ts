@@ -0,0 +1,46 @@
+import { envNumber } from "../env";
+import type { Alert } from "./types";
+
+export interface Notifier {
+  name: string;
+  // throws when the alert could not be delivered
+  notify(alert: Alert): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = envNumber("ALERT_WEBHOOK_TIMEOUT_MS", 5000);
+
+// POSTs { alert } as JSON; any 2xx counts as delivered
+export function createWebhookNotifier(url: string, timeoutMs = WEBHOOK_TIMEOUT_MS): Notifier {
+  return {
+    name: `webhook:${new URL(url).host}`,
+    async notify(alert) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ alert }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+let notifiers: Notifier[] | null = null;
+
+// Configured per deployment with ALERT_WEBHOOK_URLS=https://a.example/hook,https://b.example/hook;
+// with none set, alerts only appear in the app
+export function getNotifiers(): Notifier[] {
+  notifiers ??= (process.env.ALERT_WEBHOOK_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+    .flatMap((url) => {
+      try {
+        return [createWebhookNotifier(url)];
+      } catch {
+        console.error(`Ignoring invalid alert webhook URL: ${url}`);
+        return [];
+      }
+    });
+  return notifiers;
+}
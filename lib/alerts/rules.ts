@@ -0,0 +1,115 @@
+import { isValidPrice } from "../quotes";
+import type { StockData } from "../types";
+import type { RuleCondition } from "./types";
+
+type Result<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface RuleHit {
+  // "portfolio" or the holding's code; compared against the rule's `active` list
+  key: string;
+  code?: string;
+  value: number;
+  message: string;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+// Checks a rule condition sent by the client
+export function readRuleCondition(body: unknown): Result<RuleCondition> {
+  if (!isObject(body)) return { ok: false, error: "condition must be a JSON object" };
+  const code = typeof body.code === "string" && body.code.trim() ? body.code.trim().toUpperCase() : undefined;
+
+  switch (body.kind) {
+    case "price":
+      if (!code) return { ok: false, error: "A price rule needs a stock code" };
+      if (body.op !== "below" && body.op !== "above") return { ok: false, error: "op must be below or above" };
+      if (!isNumber(body.price) || body.price <= 0) return { ok: false, error: "price must be a positive number" };
+      return { ok: true, value: { kind: "price", code, op: body.op, price: body.price } };
+
+    case "dayChange":
+      if (body.direction !== "down" && body.direction !== "up") {
+        return { ok: false, error: "direction must be down or up" };
+      }
+      if (!isNumber(body.percent) || body.percent <= 0) {
+        return { ok: false, error: "percent must be a positive number" };
+      }
+      return { ok: true, value: { kind: "dayChange", code, direction: body.direction, percent: body.percent } };
+
+    case "portfolioPnl":
+      if (body.op !== "below" && body.op !== "above") return { ok: false, error: "op must be below or above" };
+      if (!isNumber(body.percent)) return { ok: false, error: "percent must be a number" };
+      return { ok: true, value: { kind: "portfolioPnl", op: body.op, percent: body.percent } };
+
+    default:
+      return { ok: false, error: "kind must be price, dayChange or portfolioPnl" };
+  }
+}
+
+export function describeRule(condition: RuleCondition): string {
+  switch (condition.kind) {
+    case "price":
+      return `${condition.code} ${condition.op} ₹${condition.price}`;
+    case "dayChange":
+      return `${condition.code ?? "Any holding"} ${condition.direction === "down" ? "drops" : "rises"} ${
+        condition.percent
+      }% in a day`;
+    case "portfolioPnl":
+      return `Portfolio P&L ${condition.op} ${condition.percent}%`;
+  }
+}
+
+const matches = (s: StockData, code: string) => s.code.toUpperCase() === code || s.ticker?.toUpperCase() === code;
+const crossed = (value: number, op: "below" | "above", level: number) => (op === "below" ? value < level : value > level);
+
+// `previousPrices` stands in for the last close when the quote provider doesn't report one
+export function evaluateRule(
+  condition: RuleCondition,
+  data: StockData[],
+  previousPrices: Map<string, number> = new Map()
+): RuleHit[] {
+  const priced = data.filter((s) => s.priceStatus === "updated" && isValidPrice(s.currentPrice));
+
+  switch (condition.kind) {
+    case "price":
+      return priced
+        .filter((s) => matches(s, condition.code) && crossed(s.currentPrice!, condition.op, condition.price))
+        .slice(0, 1)
+        .map((s) => ({
+          key: s.code,
+          code: s.code,
+          value: s.currentPrice!,
+          message: `${s.name} is at ₹${s.currentPrice!.toFixed(2)}, ${condition.op} ₹${condition.price}`,
+        }));
+
+    case "dayChange": {
+      const hits: RuleHit[] = [];
+      for (const s of priced) {
+        if (condition.code && !matches(s, condition.code)) continue;
+        const previous = s.previousClose ?? previousPrices.get(s.code);
+        if (!previous || hits.some((h) => h.key === s.code)) continue;
+        const change = (s.currentPrice! / previous - 1) * 100;
+        const hit = condition.direction === "down" ? change <= -condition.percent : change >= condition.percent;
+        if (hit) {
+          hits.push({
+            key: s.code,
+            code: s.code,
+            value: change,
+            message: `${s.name} is ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(2)}% today`,
+          });
+        }
+      }
+      return hits;
+    }
+
+    case "portfolioPnl": {
+      const invested = priced.reduce((sum, s) => sum + s.investment, 0);
+      if (!invested) return [];
+      const value = priced.reduce((sum, s) => sum + (s.updatedPresentValue ?? 0), 0);
+      const pnl = ((value - invested) / invested) * 100;
+      return crossed(pnl, condition.op, condition.percent)
+        ? [{ key: "portfolio", value: pnl, message: `Portfolio P&L is ${pnl.toFixed(2)}%` }]
+        : [];
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { envNumber } from "../env";
+import { createJsonDocument, DATA_DIR } from "../storage";
+import type { RuleHit } from "./rules";
+import type { Alert, AlertRule, RuleCondition } from "./types";
+
+// oldest notifications are dropped beyond this many
+const MAX_ALERTS = envNumber("ALERTS_MAX", 500);
+
+const rules = createJsonDocument(path.join(DATA_DIR, "alert-rules.json"), () => ({
+  rules: [] as AlertRule[],
+}));
+
+const alerts = createJsonDocument(path.join(DATA_DIR, "alerts.json"), () => ({
+  alerts: [] as Alert[],
+}));
+
+export async function listRules(portfolioId?: string): Promise<AlertRule[]> {
+  const all = (await rules.read()).rules;
+  return portfolioId ? all.filter((r) => r.portfolioId === portfolioId) : all;
+}
+
+export async function addRule(portfolioId: string, condition: RuleCondition): Promise<AlertRule> {
+  const rule: AlertRule = {
+    id: randomUUID(),
+    portfolioId,
+    condition,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    active: [],
+  };
+  await rules.mutate((contents) => {
+    contents.rules.push(rule);
+  });
+  return rule;
+}
+
+// Resolves null when there is no such rule on the portfolio
+export async function setRuleEnabled(
+  portfolioId: string,
+  id: string,
+  enabled: boolean
+): Promise<AlertRule | null> {
+  return rules.mutate((contents) => {
+    const rule = contents.rules.find((r) => r.id === id && r.portfolioId === portfolioId);
+    if (!rule) return null;
+    rule.enabled = enabled;
+    // re-enabling starts afresh, so a condition that still holds fires again
+    if (enabled) rule.active = [];
+    return rule;
+  });
+}
+
+export async function deleteRule(portfolioId: string, id: string): Promise<boolean> {
+  return rules.mutate((contents) => {
+    const before = contents.rules.length;
+    contents.rules = contents.rules.filter((r) => !(r.id === id && r.portfolioId === portfolioId));
+    return contents.rules.length < before;
+  });
+}
+
+// Evaluates a portfolio's enabled rules and records what each condition now holds for in the same
+// write, so overlapping checks (a refresh during a live-stream tick) are serialized and only the
+// first sees a hit as new. Resolves each rule with its hits that were not already active.
+export async function claimRuleHits(
+  portfolioId: string,
+  evaluate: (rule: AlertRule) => RuleHit[],
+  at: string
+): Promise<{ rule: AlertRule; fresh: RuleHit[] }[]> {
+  return rules.mutate((contents) =>
+    contents.rules
+      .filter((r) => r.portfolioId === portfolioId && r.enabled)
+      .map((rule) => {
+        const hits = evaluate(rule);
+        const fresh = hits.filter((h) => !rule.active.includes(h.key));
+        rule.active = hits.map((h) => h.key);
+        if (fresh.length) rule.lastTriggeredAt = at;
+        return { rule: { ...rule }, fresh };
+      })
+  );
+}
+
+export async function deleteRulesForPortfolio(portfolioId: string): Promise<void> {
+  await rules.mutate((contents) => {
+    contents.rules = contents.rules.filter((r) => r.portfolioId !== portfolioId);
+  });
+  await alerts.mutate((contents) => {
+    contents.alerts = contents.alerts.filter((a) => a.portfolioId !== portfolioId);
+  });
+}
+
+// Newest first
+export async function listAlerts(filter: { portfolioId?: string; unread?: boolean } = {}): Promise<Alert[]> {
+  return (await alerts.read()).alerts
+    .filter((a) => (!filter.portfolioId || a.portfolioId === filter.portfolioId) && (!filter.unread || !a.read))
+    .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt));
+}
+
+export async function recordAlerts(added: Alert[]): Promise<void> {
+  if (!added.length) return;
+  await alerts.mutate((contents) => {
+    contents.alerts.push(...added);
+    contents.alerts = contents.alerts
+      .sort((a, b) => a.triggeredAt.localeCompare(b.triggeredAt))
+      .slice(-MAX_ALERTS);
+  });
+}
+
+// Marks the given alerts read, or every alert when no ids are given; returns how many changed
+export async function markAlertsRead(ids?: string[]): Promise<number> {
+  return alerts.mutate((contents) => {
+    let changed = 0;
+    for (const alert of contents.alerts) {
+      if (!alert.read && (!ids || ids.includes(alert.id))) {
+        alert.read = true;
+        changed++;
+      }
+    }
+    return changed;
+  });
+}
@@ -0,0 +1,38 @@
+export type RuleCondition =
+  // a holding's price crossing a level, e.g. INFY below ₹1400
+  | { kind: "price"; code: string; op: "below" | "above"; price: number }
+  // the move since the last session's close; without a code, any holding qualifies
+  | { kind: "dayChange"; code?: string; direction: "down" | "up"; percent: number }
+  // unrealized P&L of the priced holdings as a percentage of what they cost
+  | { kind: "portfolioPnl"; op: "below" | "above"; percent: number };
+
+export interface AlertRule {
+  id: string;
+  portfolioId: string;
+  condition: RuleCondition;
+  enabled: boolean;
+  createdAt: string;
+  // what the condition held for at the last check ("portfolio" or holding codes); a rule fires when
+  // it starts to hold, not on every refresh while it still does
+  active: string[];
+  lastTriggeredAt?: string;
+}
+
+export interface Delivery {
+  notifier: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  portfolioId: string;
+  triggeredAt: string;
+  code?: string;
+  message: string;
+  // the price, change % or P&L % that tripped the rule
+  value: number;
+  read: boolean;
+  deliveries: Delivery[];
+}
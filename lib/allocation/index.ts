@@ -0,0 +1,109 @@
+// Pure functions only: also used client-side so thresholds can change without a round trip
+
+export interface AllocationHolding {
+  code: string;
+  name: string;
+  sector?: string;
+  marketCapBucket?: string;
+  // "Equity", "ETF", "Debt Fund"...
+  assetClass?: string;
+  value: number;
+}
+
+export interface Slice {
+  label: string;
+  value: number;
+  // fraction of the portfolio's value
+  weight: number;
+  count: number;
+}
+
+export interface RankedHolding extends AllocationHolding {
+  weight: number;
+  cumulative: number;
+}
+
+export interface Concentration {
+  // Herfindahl-Hirschman index on percentage weights: 10000 is a single holding
+  hhi: number;
+  // 1 / HHI on fractional weights: how many equal-sized positions would be as diversified
+  effectiveCount: number;
+  level: "low" | "moderate" | "high";
+}
+
+export interface AllocationLimits {
+  // fractions; a holding or sector above its limit is flagged
+  holding: number;
+  sector: number;
+}
+
+export interface AllocationReport {
+  total: number;
+  bySector: Slice[];
+  byAssetClass: Slice[];
+  byMarketCap: Slice[];
+  top: RankedHolding[];
+  holdings: Concentration;
+  sectors: Concentration;
+  flagged: { holdings: RankedHolding[]; sectors: Slice[] };
+}
+
+export function groupBy(holdings: AllocationHolding[], key: (h: AllocationHolding) => string): Slice[] {
+  const total = holdings.reduce((sum, h) => sum + h.value, 0);
+  const groups = new Map<string, Slice>();
+  for (const h of holdings) {
+    const label = key(h);
+    const slice = groups.get(label) ?? { label, value: 0, weight: 0, count: 0 };
+    slice.value += h.value;
+    slice.count++;
+    groups.set(label, slice);
+  }
+  return Array.from(groups.values())
+    .map((s) => ({ ...s, weight: total ? s.value / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+}
+
+// Thresholds follow the US DOJ/FTC merger guidelines: under 1500 unconcentrated, over 2500 highly
+export function concentration(weights: number[]): Concentration {
+  const sumOfSquares = weights.reduce((sum, w) => sum + w * w, 0);
+  const hhi = Math.round(sumOfSquares * 10_000);
+  return {
+    hhi,
+    effectiveCount: sumOfSquares ? 1 / sumOfSquares : 0,
+    level: hhi > 2500 ? "high" : hhi >= 1500 ? "moderate" : "low",
+  };
+}
+
+export function allocationReport(
+  holdings: AllocationHolding[],
+  limits: AllocationLimits,
+  topN = 10
+): AllocationReport {
+  // the same stock held in two rows (two demat accounts) is one position
+  const merged = groupBy(holdings, (h) => h.code).map((slice) => {
+    const first = holdings.find((h) => h.code === slice.label)!;
+    return { ...first, value: slice.value, weight: slice.weight };
+  });
+
+  let cumulative = 0;
+  const ranked: RankedHolding[] = merged.map((h) => {
+    cumulative += h.weight;
+    return { ...h, cumulative };
+  });
+
+  const bySector = groupBy(holdings, (h) => h.sector || "Others");
+
+  return {
+    total: holdings.reduce((sum, h) => sum + h.value, 0),
+    bySector,
+    byAssetClass: groupBy(holdings, (h) => h.assetClass || "Equity"),
+    byMarketCap: groupBy(holdings, (h) => h.marketCapBucket || "Unknown"),
+    top: ranked.slice(0, topN),
+    holdings: concentration(ranked.map((h) => h.weight)),
+    sectors: concentration(bySector.map((s) => s.weight)),
+    flagged: {
+      holdings: ranked.filter((h) => h.weight > limits.holding),
+      sectors: bySector.filter((s) => s.weight > limits.sector),
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { isFundIsin } from "./import/parse";
+import { trailingDividends } from "./income";
+import {
+  applyLedger,
+  type DividendPayment,
+  type LedgerProblem,
+  type RealizedGain,
+  type Transaction,
+} from "./ledger";
+import { fetchStockPrices, isValidPrice } from "./quotes";
+import { portfolioReturns, type PortfolioReturns } from "./returns";
+import { lookupInstrument, parseMarketCap, resolveSymbol } from "./instruments";
+import { classifyQuote, istTime } from "./market";
+import { categoryClass, categoryLabel, classifyNav, fetchNavPrices, findScheme } from "./nav";
+import type { Snapshot } from "./storage";
+import type { StockData } from "./types";
+
+export interface Analysis {
+  totalStocks: number;
+  validStocks: number;
+  transactions: number;
+  realizedGains: RealizedGain[];
+  // every dividend received, including on positions since closed
+  dividends: DividendPayment[];
+  problems: LedgerProblem[];
+  returns: PortfolioReturns;
+  data: StockData[];
+}
+
+const looksLikeEtf = (s: StockData) => /\b(ETF|BEES)\b/i.test(`${s.name} ${s.code}`);
+const mayBeFund = (s: StockData) =>
+  isFundIsin(s.isin) || isFundIsin(s.code) || /\b(fund|scheme|direct|regular|growth|idcw)\b/i.test(s.name);
+
+// Settles each row's asset type: the sheet's when it gives one, otherwise a scheme found in the
+// AMFI NAV file makes it a mutual fund and an ETF-like name an ETF. Funds get their scheme code
+// and SEBI category.
+export async function classifyAssets(stocks: StockData[]): Promise<StockData[]> {
+  return Promise.all(
+    stocks.map(async (s): Promise<StockData> => {
+      if (s.assetType === "equity" || s.assetType === "etf") return s;
+      if (!s.assetType && looksLikeEtf(s)) return { ...s, assetType: "etf" };
+
+      const scheme =
+        s.assetType === "mutual-fund" || mayBeFund(s)
+          ? await findScheme({ isin: s.isin, code: s.code, name: s.name })
+          : undefined;
+      if (scheme) {
+        return { ...s, assetType: "mutual-fund", schemeCode: scheme.schemeCode, fundCategory: scheme.category };
+      }
+      return { ...s, assetType: s.assetType ?? "equity" };
+    })
+  );
+}
+
+function assetClassOf(s: StockData): string {
+  if (s.assetType === "mutual-fund") return `${categoryClass(s.fundCategory) ?? "Other"} Fund`;
+  return s.assetType === "etf" ? "ETF" : "Equity";
+}
+
+// Live price first, the sheet's CMP as a fallback, and 0 when neither is plausible. Mutual funds
+// are priced at their latest AMFI NAV, everything else on the exchange.
+// Sector: the user's override, then the sheet's, then the fund's category or the instrument master's.
+export async function priceHoldings(
+  stocks: StockData[],
+  sectorOverrides: Record<string, string> = {}
+): Promise<StockData[]> {
+  const isFund = (s: StockData) => s.assetType === "mutual-fund";
+  const [prices, navs] = await Promise.all([
+    fetchStockPrices(stocks.filter((s) => !isFund(s)).map((s) => s.ticker ?? s.code)),
+    fetchNavPrices(stocks.filter(isFund).map((s) => s.schemeCode ?? s.code)),
+  ]);
+
+  return stocks.map((s) => {
+    const fund = isFund(s);
+    const result = fund ? navs.get(s.schemeCode ?? s.code) : prices.get(s.ticker ?? s.code);
+    const quote = result?.ok ? result.quote : null;
+    const livePrice = quote?.price ?? null;
+    const price = isValidPrice(livePrice) ? livePrice : isValidPrice(s.cmp) ? s.cmp : 0;
+
+    const status: "updated" | "unavailable" = isValidPrice(livePrice) ? "updated" : "unavailable";
+    const updatedPresentValue = price * s.quantity;
+    const updatedGainLoss = updatedPresentValue - s.investment;
+    const instrument = fund ? undefined : lookupInstrument({ isin: s.isin, code: s.ticker ?? s.code, name: s.name });
+    const override = sectorOverrides[s.code];
+    const sector = fund
+      ? categoryLabel(s.fundCategory)
+      : s.assetType === "etf"
+        ? (instrument?.sector ?? "ETF")
+        : instrument?.sector;
+
+    return {
+      ...s,
+      currentPrice: price,
+      previousClose: isValidPrice(livePrice) ? quote?.previousClose : undefined,
+      quoteSession:
+        quote && isValidPrice(livePrice)
+          ? fund && quote.marketTime
+            ? classifyNav(istTime(new Date(quote.marketTime)).date)
+            : classifyQuote(quote.marketTime ? new Date(quote.marketTime) : new Date(Date.now() - quote.ageMs))
+          : undefined,
+      priceStatus: status,
+      priceSource: quote?.provider ?? "sheet",
+      cacheStatus: quote?.cache,
+      cacheAgeMs: quote?.ageMs,
+      priceError:
+        result && !result.ok
+          ? { reason: result.reason, status: result.status, message: result.message }
+          : undefined,
+      updatedPresentValue,
+      updatedGainLoss,
+      updatedGainLossPercent: s.investment
+        ? ((updatedGainLoss / s.investment) * 100).toFixed(2) + "%"
+        : "—",
+      sector: override ?? s.sector ?? sector ?? "Others",
+      sectorOverridden: override !== undefined,
+      industry: instrument?.industry,
+      marketCapBucket: parseMarketCap(s.marketCap) ?? instrument?.marketCap,
+      assetClass: assetClassOf(s),
+    };
+  });
+}
+
+// Maps each code to an exchange ticker via remembered choices and the instrument master.
+// Rows without a match keep their code, which is still tried on NSE/BSE as before. Mutual funds
+// are not listed, so they are left alone.
+export async function resolveHoldings(stocks: StockData[]): Promise<StockData[]> {
+  return Promise.all(
+    stocks.map(async (s) => {
+      if (s.assetType === "mutual-fund") return s;
+      const { symbol, matchedBy, candidates } = await resolveSymbol({ isin: s.isin, code: s.code, name: s.name });
+      return { ...s, ticker: symbol ?? undefined, resolution: { matchedBy, candidates } };
+    })
+  );
+}
+
+// Applies the ledger to the imported holdings and prices what is still held
+export async function analyzeHoldings(
+  holdings: StockData[],
+  transactions: Transaction[],
+  sectorOverrides: Record<string, string> = {}
+): Promise<Analysis> {
+  const { stocks, realized, dividends, problems } = applyLedger(holdings, transactions);
+  const resolved = await resolveHoldings(await classifyAssets(stocks));
+  const priced = resolved.length ? await priceHoldings(resolved, sectorOverrides) : [];
+  const ttm = trailingDividends(dividends);
+  // candidates only matter where the row could not be priced as it stands
+  const data = priced.map((s) => ({
+    ...s,
+    dividendsTtm: ttm.get(s.code) ?? 0,
+    resolution:
+      s.priceStatus === "updated" || s.resolution?.matchedBy
+        ? { matchedBy: s.resolution?.matchedBy ?? null }
+        : s.resolution,
+  }));
+
+  return {
+    totalStocks: stocks.length,
+    validStocks: data.filter((s) => isValidPrice(s.currentPrice)).length,
+    transactions: transactions.length,
+    realizedGains: realized,
+    dividends,
+    problems,
+    returns: portfolioReturns(data, realized, dividends),
+    data,
+  };
+}
+
+// Portfolio totals as of today (IST), for the performance-over-time history
+export function snapshotOf(portfolioId: string, analysis: Analysis): Snapshot {
+  const holdings = analysis.data.map((s) => ({
+    code: s.code,
+    quantity: s.quantity,
+    price: s.currentPrice ?? 0,
+    invested: s.investment,
+    value: s.updatedPresentValue ?? 0,
+  }));
+  const invested = holdings.reduce((sum, h) => sum + h.invested, 0);
+  const value = holdings.reduce((sum, h) => sum + h.value, 0);
+  const now = new Date();
+
+  return {
+    portfolioId,
+    date: istTime(now).date,
+    takenAt: now.toISOString(),
+    invested,
+    value,
+    gainLoss: value - invested,
+    realizedGainLoss: analysis.realizedGains.reduce((sum, g) => sum + g.gain, 0),
+    holdings,
+  };
+}
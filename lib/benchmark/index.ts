@@ -0,0 +1,78 @@
+import { closeOn, type Candle } from "../quotes";
+import { netFlow, periodReturns, timeWeightedReturn, type ValuePoint } from "../returns";
+import { beta } from "../risk";
+
+export interface Benchmark {
+  id: string;
+  label: string;
+  // Yahoo index symbol
+  symbol: string;
+}
+
+export const BENCHMARKS: Benchmark[] = [
+  { id: "nifty50", label: "NIFTY 50", symbol: "^NSEI" },
+  { id: "sensex", label: "SENSEX", symbol: "^BSESN" },
+  { id: "niftybank", label: "NIFTY Bank", symbol: "^NSEBANK" },
+  { id: "niftyit", label: "NIFTY IT", symbol: "^CNXIT" },
+  { id: "nifty500", label: "NIFTY 500", symbol: "^CRSLDX" },
+];
+
+export function findBenchmark(id: string): Benchmark | undefined {
+  return BENCHMARKS.find((b) => b.id === id.toLowerCase());
+}
+
+export interface BenchmarkComparison {
+  benchmark: Benchmark;
+  from: string;
+  to: string;
+  // time-weighted, over the period, as fractions
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  gap: number;
+  // Jensen's alpha over the period with a zero risk-free rate; null with fewer than three periods
+  alpha: number | null;
+  beta: number | null;
+  // what the portfolio would be worth had every contribution gone into the index instead
+  series: { date: string; value: number }[];
+}
+
+export function compareToBenchmark(
+  benchmark: Benchmark,
+  points: ValuePoint[],
+  candles: Candle[]
+): BenchmarkComparison | null {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  const twr = timeWeightedReturn(sorted);
+  if (!twr || !candles.length) return null;
+
+  const closes = sorted.map((p) => closeOn(candles, p.date)!);
+  const benchmarkReturn = closes[closes.length - 1] / closes[0] - 1;
+
+  let units = sorted[0].value / closes[0];
+  const series = sorted.map((p, i) => {
+    if (i > 0) units += netFlow(sorted[i - 1], p) / closes[i];
+    return { date: p.date, value: units * closes[i] };
+  });
+
+  // pair each portfolio period return with the index over the same dates
+  const portfolioPeriods: number[] = [];
+  const marketPeriods: number[] = [];
+  for (const period of periodReturns(sorted)) {
+    const i = sorted.findIndex((p) => p.date === period.date);
+    portfolioPeriods.push(period.return);
+    marketPeriods.push(closes[i] / closes[i - 1] - 1);
+  }
+  const b = beta(portfolioPeriods, marketPeriods);
+
+  return {
+    benchmark,
+    from: twr.from,
+    to: twr.to,
+    portfolioReturn: twr.return,
+    benchmarkReturn,
+    gap: twr.return - benchmarkReturn,
+    alpha: b == null ? null : twr.return - b * benchmarkReturn,
+    beta: b,
+    series,
+  };
+}
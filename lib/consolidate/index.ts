@@ -0,0 +1,177 @@
+import type { Analysis } from "../analysis";
+import type { Portfolio } from "../storage/types";
+
+export interface AccountInput {
+  portfolio: Pick<Portfolio, "id" | "name" | "owner">;
+  analysis: Analysis;
+}
+
+// One account's share of a merged holding
+export interface AccountPosition {
+  portfolioId: string;
+  portfolioName: string;
+  owner?: string;
+  quantity: number;
+  averageCost: number;
+  investment: number;
+  value: number;
+  gainLoss: number;
+}
+
+export interface ConsolidatedHolding {
+  // exchange ticker or AMFI scheme code where the row resolved to one, so INFY and 500209 merge
+  key: string;
+  code: string;
+  name: string;
+  sector?: string;
+  quantity: number;
+  // weighted by quantity across accounts: total investment over total quantity
+  averageCost: number;
+  investment: number;
+  // the live quote when any account got one
+  currentPrice: number;
+  value: number;
+  gainLoss: number;
+  // fraction of investment; null with nothing invested
+  returnPct: number | null;
+  accounts: AccountPosition[];
+}
+
+export interface PortfolioTotals {
+  holdings: number;
+  invested: number;
+  value: number;
+  gainLoss: number;
+  returnPct: number | null;
+  realized: number;
+  dividends: number;
+}
+
+export interface AccountSummary extends PortfolioTotals {
+  portfolioId: string;
+  name: string;
+  owner?: string;
+  xirr: number | null;
+}
+
+export interface OwnerSummary extends PortfolioTotals {
+  owner: string;
+  accounts: number;
+}
+
+export interface Consolidated {
+  asOf: string;
+  holdings: ConsolidatedHolding[];
+  accounts: AccountSummary[];
+  owners: OwnerSummary[];
+  totals: PortfolioTotals;
+}
+
+export const UNTAGGED_OWNER = "Untagged";
+
+const returnOf = (invested: number, gainLoss: number) => (invested ? gainLoss / invested : null);
+
+function totalsOf(parts: PortfolioTotals[], holdings: number): PortfolioTotals {
+  const sum = (pick: (t: PortfolioTotals) => number) => parts.reduce((total, t) => total + pick(t), 0);
+  const invested = sum((t) => t.invested);
+  const gainLoss = sum((t) => t.gainLoss);
+  return {
+    holdings,
+    invested,
+    value: sum((t) => t.value),
+    gainLoss,
+    returnPct: returnOf(invested, gainLoss),
+    realized: sum((t) => t.realized),
+    dividends: sum((t) => t.dividends),
+  };
+}
+
+function accountSummary({ portfolio, analysis }: AccountInput): AccountSummary {
+  const invested = analysis.data.reduce((sum, s) => sum + s.investment, 0);
+  const value = analysis.data.reduce((sum, s) => sum + (s.updatedPresentValue ?? 0), 0);
+  return {
+    portfolioId: portfolio.id,
+    name: portfolio.name,
+    owner: portfolio.owner,
+    holdings: analysis.data.length,
+    invested,
+    value,
+    gainLoss: value - invested,
+    returnPct: returnOf(invested, value - invested),
+    realized: analysis.realizedGains.reduce((sum, g) => sum + g.gain, 0),
+    dividends: analysis.dividends.reduce((sum, d) => sum + d.amount, 0),
+    xirr: analysis.returns.xirr,
+  };
+}
+
+// Merges analyzed accounts into one book: the same stock across accounts becomes one row at the
+// weighted-average cost. Each account keeps the value it was priced at, so the rows add up to the
+// account summaries.
+export function consolidate(inputs: AccountInput[], asOf: string = new Date().toISOString()): Consolidated {
+  const merged = new Map<string, ConsolidatedHolding>();
+
+  for (const { portfolio, analysis } of inputs) {
+    for (const s of analysis.data) {
+      const key = s.ticker ?? s.schemeCode ?? s.code;
+      const value = s.updatedPresentValue ?? 0;
+      let holding = merged.get(key);
+      if (!holding) {
+        holding = {
+          key,
+          code: s.code,
+          name: s.name,
+          sector: s.sector,
+          quantity: 0,
+          averageCost: 0,
+          investment: 0,
+          currentPrice: s.currentPrice ?? 0,
+          value: 0,
+          gainLoss: 0,
+          returnPct: null,
+          accounts: [],
+        };
+        merged.set(key, holding);
+      }
+      if (s.priceStatus === "updated" && s.currentPrice) holding.currentPrice = s.currentPrice;
+
+      holding.quantity += s.quantity;
+      holding.investment += s.investment;
+      holding.value += value;
+      holding.gainLoss += value - s.investment;
+      holding.accounts.push({
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
+        owner: portfolio.owner,
+        quantity: s.quantity,
+        averageCost: s.purchasePrice,
+        investment: s.investment,
+        value,
+        gainLoss: value - s.investment,
+      });
+    }
+  }
+
+  const holdings = Array.from(merged.values())
+    .map((h) => ({
+      ...h,
+      averageCost: h.quantity ? h.investment / h.quantity : 0,
+      returnPct: returnOf(h.investment, h.gainLoss),
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  const accounts = inputs.map(accountSummary);
+
+  const byOwner = new Map<string, AccountSummary[]>();
+  for (const a of accounts) {
+    const owner = a.owner ?? UNTAGGED_OWNER;
+    byOwner.set(owner, [...(byOwner.get(owner) ?? []), a]);
+  }
+  const owners = Array.from(byOwner, ([owner, owned]) => {
+    const codes = new Set(
+      holdings.filter((h) => h.accounts.some((a) => (a.owner ?? UNTAGGED_OWNER) === owner)).map((h) => h.key)
+    );
+    return { owner, accounts: owned.length, ...totalsOf(owned, codes.size) };
+  }).sort((a, b) => b.value - a.value);
+
+  return { asOf, holdings, accounts, owners, totals: totalsOf(accounts, holdings.length) };
+}
@@ -0,0 +1,8 @@
+// Reads a non-negative numeric setting from the environment, falling back when unset or malformed
+export function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw == null || raw.trim() === "") return fallback;
+
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
@@ -0,0 +1,30 @@
+import { exportReport } from "./report";
+import type { ExportFile, ExportFormat, ExportInput } from "./types";
+import { exportCsv, exportXlsx } from "./xlsx";
+
+export function exportPortfolio(format: ExportFormat, input: ExportInput): ExportFile {
+  switch (format) {
+    case "xlsx":
+      return {
+        body: exportXlsx(input),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+      };
+    case "csv":
+      return { body: exportCsv(input), contentType: "text/csv; charset=utf-8", extension: "csv" };
+    case "html":
+      return { body: exportReport(input), contentType: "text/html; charset=utf-8", extension: "html" };
+  }
+}
+
+export { exportCsv, exportXlsx } from "./xlsx";
+export { exportReport } from "./report";
+export { sectorRows, summarize, type SectorRow } from "./summary";
+export {
+  EXPORT_FORMATS,
+  type ExportFile,
+  type ExportFormat,
+  type ExportHolding,
+  type ExportInput,
+  type ExportSummary,
+} from "./types";
@@ -0,0 +1,146 @@
+import { formatCurrency, formatNumber, formatPercent } from "../format";
+import { sectorRows, summarize, type SectorRow } from "./summary";
+import type { ExportInput } from "./types";
+
+const COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#4b5563"];
+
+const escape = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const pct = (v: number | null | undefined) => (v == null ? "—" : formatPercent(v * 100));
+const tone = (v: number) => (v >= 0 ? "up" : "down");
+
+function card(label: string, value: string, cls = "") {
+  return `<div class="card ${cls}"><h3>${label}</h3><p>${value}</p></div>`;
+}
+
+// Charts are inline SVG so the report prints the same in any browser, with nothing to load
+function donut(slices: SectorRow[]): string {
+  const r = 80;
+  const c = 2 * Math.PI * r;
+  let offset = 0;
+  const arcs = slices.map((s, i) => {
+    const length = s.weight * c;
+    const arc = `<circle r="${r}" cx="110" cy="110" fill="none" stroke="${COLORS[i % COLORS.length]}" stroke-width="40"
+      stroke-dasharray="${length} ${c - length}" stroke-dashoffset="${-offset}" transform="rotate(-90 110 110)" />`;
+    offset += length;
+    return arc;
+  });
+  const legend = slices
+    .map(
+      (s, i) =>
+        `<li><span class="swatch" style="background:${COLORS[i % COLORS.length]}"></span>${escape(s.label)} <b>${pct(s.weight)}</b></li>`
+    )
+    .join("");
+  return `<div class="chart"><svg width="220" height="220" viewBox="0 0 220 220">${arcs.join("")}</svg><ul class="legend">${legend}</ul></div>`;
+}
+
+function bars(slices: SectorRow[]): string {
+  const max = Math.max(...slices.flatMap((s) => [s.invested, s.value]), 1);
+  const width = 360;
+  const rowHeight = 34;
+  const label = 140;
+  const rows = slices.map((s, i) => {
+    const y = i * rowHeight;
+    return `<text x="0" y="${y + 16}" class="axis">${escape(s.label)}</text>
+      <rect x="${label}" y="${y + 4}" height="11" width="${(s.invested / max) * width}" fill="#93c5fd" />
+      <rect x="${label}" y="${y + 17}" height="11" width="${(s.value / max) * width}" fill="${s.value >= s.invested ? "#16a34a" : "#dc2626"}" />`;
+  });
+  return `<svg width="${label + width + 10}" height="${slices.length * rowHeight}">${rows.join("")}</svg>
+    <p class="note"><span class="swatch" style="background:#93c5fd"></span>Invested
+    <span class="swatch" style="background:#16a34a"></span>Current value</p>`;
+}
+
+// A standalone HTML page laid out for printing; the browser's "Save as PDF" turns it into the PDF report
+export function exportReport(input: ExportInput): string {
+  const summary = summarize(input);
+  const sectors = sectorRows(input.holdings);
+  const holdings = [...input.holdings].sort((a, b) => b.updatedPresentValue - a.updatedPresentValue);
+  const generated = new Date(input.generatedAt).toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
+
+  const cards = [
+    card("Total Investment", formatCurrency(summary.invested), "blue"),
+    card("Current Value", formatCurrency(summary.value), "up"),
+    card("Unrealized Gain/Loss", formatCurrency(summary.gainLoss), tone(summary.gainLoss)),
+    card("Realized Gain/Loss", formatCurrency(summary.realized), tone(summary.realized)),
+    card("Overall Return", pct(summary.returnPct), tone(summary.gainLoss)),
+    ...(input.xirr != null ? [card("XIRR", pct(input.xirr), tone(input.xirr))] : []),
+  ].join("");
+
+  const sectorTable = sectors
+    .map(
+      (s) => `<tr><td>${escape(s.label)}</td><td>${s.count}</td><td>${formatCurrency(s.invested)}</td>
+        <td>${formatCurrency(s.value)}</td><td class="${tone(s.value - s.invested)}">${formatCurrency(s.value - s.invested)}</td>
+        <td>${pct(s.weight)}</td></tr>`
+    )
+    .join("");
+
+  const holdingTable = holdings
+    .map(
+      (h) => `<tr><td>${escape(h.name)}<br /><small>${escape(h.code)}</small></td><td>${escape(h.sector || "Others")}</td>
+        <td>${formatNumber(h.quantity)}</td><td>${formatCurrency(h.purchasePrice)}</td><td>${formatCurrency(h.currentPrice)}</td>
+        <td>${formatCurrency(h.investment)}</td><td>${formatCurrency(h.updatedPresentValue)}</td>
+        <td class="${tone(h.updatedGainLoss)}">${formatCurrency(h.updatedGainLoss)}</td>
+        <td class="${tone(h.updatedGainLoss)}">${pct(h.investment ? h.updatedGainLoss / h.investment : null)}</td>
+        <td>${pct(summary.value ? h.updatedPresentValue / summary.value : null)}</td></tr>`
+    )
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escape(input.name)} – Portfolio Report</title>
+<style>
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2937; margin: 32px; }
+  h1 { margin: 0; font-size: 26px; }
+  h2 { font-size: 18px; margin: 28px 0 12px; }
+  .meta { color: #6b7280; font-size: 13px; margin: 4px 0 20px; }
+  .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  .card { border-radius: 8px; padding: 12px 16px; background: #f9fafb; break-inside: avoid; }
+  .card h3 { margin: 0; font-size: 12px; font-weight: 500; color: #4b5563; }
+  .card p { margin: 4px 0 0; font-size: 20px; font-weight: 700; }
+  .card.blue { background: #eff6ff; } .card.up { background: #f0fdf4; } .card.down { background: #fef2f2; }
+  .charts { display: flex; gap: 40px; align-items: flex-start; flex-wrap: wrap; break-inside: avoid; }
+  .chart { display: flex; gap: 16px; align-items: center; }
+  .legend { list-style: none; padding: 0; margin: 0; font-size: 12px; }
+  .legend li { margin: 3px 0; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin: 0 6px 0 10px; }
+  .legend .swatch { margin-left: 0; }
+  .axis { font-size: 11px; fill: #4b5563; }
+  .note { font-size: 12px; color: #4b5563; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { background: #f9fafb; color: #6b7280; text-transform: uppercase; font-weight: 500; text-align: left; padding: 8px; }
+  td { padding: 6px 8px; border-top: 1px solid #e5e7eb; }
+  tr { break-inside: avoid; }
+  small { color: #6b7280; }
+  td.up, .card.up p { color: #166534; } td.down, .card.down p { color: #991b1b; }
+  .print { float: right; padding: 8px 14px; border: 1px solid #d1d5db; border-radius: 8px; background: #fff; cursor: pointer; }
+  @media print {
+    @page { size: A4 landscape; margin: 12mm; }
+    body { margin: 0; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .print { display: none; }
+  }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${escape(input.name)}</h1>
+<p class="meta">Generated ${escape(generated)} IST · ${summary.holdings} holdings</p>
+<div class="cards">${cards}</div>
+${
+  sectors.length
+    ? `<h2>Allocation</h2><div class="charts">${donut(sectors)}<div>${bars(sectors)}</div></div>
+<h2>Sectors</h2>
+<table><thead><tr><th>Sector</th><th>Holdings</th><th>Investment</th><th>Current Value</th><th>Gain/Loss</th><th>Weight</th></tr></thead>
+<tbody>${sectorTable}</tbody></table>`
+    : ""
+}
+<h2>Holdings</h2>
+<table><thead><tr><th>Stock</th><th>Sector</th><th>Quantity</th><th>Purchase Price</th><th>Current Price</th><th>Investment</th>
+<th>Current Value</th><th>Gain/Loss</th><th>Return</th><th>Weight</th></tr></thead>
+<tbody>${holdingTable}</tbody></table>
+</body>
+</html>
+`;
+}
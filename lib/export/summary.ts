@@ -0,0 +1,31 @@
+import { groupBy, type Slice } from "../allocation";
+import type { ExportHolding, ExportInput, ExportSummary } from "./types";
+
+export function summarize(input: ExportInput): ExportSummary {
+  const invested = input.holdings.reduce((sum, h) => sum + h.investment, 0);
+  const value = input.holdings.reduce((sum, h) => sum + h.updatedPresentValue, 0);
+  return {
+    invested,
+    value,
+    gainLoss: value - invested,
+    returnPct: invested ? (value - invested) / invested : null,
+    realized: input.realizedGainLoss ?? input.holdings.reduce((sum, h) => sum + (h.realizedGainLoss ?? 0), 0),
+    holdings: input.holdings.length,
+  };
+}
+
+export interface SectorRow extends Slice {
+  invested: number;
+}
+
+// Sectors by current value, largest first
+export function sectorRows(holdings: ExportHolding[]): SectorRow[] {
+  const sectorOf = (h: { sector?: string }) => h.sector || "Others";
+  const invested = new Map<string, number>();
+  for (const h of holdings) invested.set(sectorOf(h), (invested.get(sectorOf(h)) ?? 0) + h.investment);
+
+  return groupBy(
+    holdings.map((h) => ({ code: h.code, name: h.name, sector: sectorOf(h), value: h.updatedPresentValue })),
+    (h) => h.sector!
+  ).map((slice) => ({ ...slice, invested: invested.get(slice.label) ?? 0 }));
+}
@@ -0,0 +1,43 @@
+export type ExportFormat = "xlsx" | "csv" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["xlsx", "csv", "html"];
+
+// The analyzed row as the client shows it, live prices included
+export interface ExportHolding {
+  name: string;
+  code: string;
+  sector?: string;
+  quantity: number;
+  purchasePrice: number;
+  investment: number;
+  currentPrice: number;
+  updatedPresentValue: number;
+  updatedGainLoss: number;
+  priceStatus?: "updated" | "unavailable";
+  realizedGainLoss?: number;
+}
+
+export interface ExportInput {
+  name: string;
+  generatedAt: string;
+  holdings: ExportHolding[];
+  realizedGainLoss?: number;
+  // annualized, as a fraction
+  xirr?: number | null;
+}
+
+export interface ExportSummary {
+  invested: number;
+  value: number;
+  gainLoss: number;
+  // fraction of invested; null with nothing invested
+  returnPct: number | null;
+  realized: number;
+  holdings: number;
+}
+
+export interface ExportFile {
+  body: string | Buffer;
+  contentType: string;
+  extension: string;
+}
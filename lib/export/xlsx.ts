@@ -0,0 +1,132 @@
+import * as XLSX from "xlsx";
+import { sectorRows, summarize } from "./summary";
+import type { ExportInput } from "./types";
+
+const CURRENCY = '"₹"#,##0.00';
+const PERCENT = "0.00%";
+const QUANTITY = "#,##0.####";
+
+type Cell = XLSX.CellObject;
+
+const text = (v: string): Cell => ({ t: "s", v });
+// `v` is the cached result, shown by viewers that don't recalculate
+const num = (v: number, z?: string, f?: string): Cell => ({ t: "n", v, ...(z && { z }), ...(f && { f }) });
+
+function sheet(rows: (Cell | null)[][], widths: number[]): XLSX.WorkSheet {
+  const ws: XLSX.WorkSheet = {};
+  rows.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      if (cell) ws[XLSX.utils.encode_cell({ r, c })] = cell;
+    })
+  );
+  ws["!ref"] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: rows.length - 1, c: Math.max(...rows.map((r) => r.length)) - 1 },
+  });
+  ws["!cols"] = widths.map((wch) => ({ wch }));
+  return ws;
+}
+
+// Summary, Holdings and Sectors sheets. Derived figures are formulas over the Holdings sheet, so
+// editing a quantity or price there flows through to the totals.
+export function exportXlsx(input: ExportInput): Buffer {
+  const { holdings } = input;
+  const summary = summarize(input);
+  const first = 2;
+  const last = holdings.length + 1;
+  const totalRow = last + 1;
+  const range = (col: string) => `${col}$${first}:${col}$${last}`;
+  const valueTotal = summary.value;
+
+  const holdingRows: (Cell | null)[][] = [
+    ["Stock", "Code", "Sector", "Quantity", "Purchase Price", "Investment", "Current Price", "Current Value", "Gain/Loss", "Return %", "Weight", "Price"].map(text),
+    ...holdings.map((h, i) => {
+      const r = first + i;
+      return [
+        text(h.name),
+        text(h.code),
+        text(h.sector || "Others"),
+        num(h.quantity, QUANTITY),
+        num(h.purchasePrice, CURRENCY),
+        num(h.investment, CURRENCY),
+        num(h.currentPrice, CURRENCY),
+        num(h.updatedPresentValue, CURRENCY, `D${r}*G${r}`),
+        num(h.updatedGainLoss, CURRENCY, `H${r}-F${r}`),
+        num(h.investment ? h.updatedGainLoss / h.investment : 0, PERCENT, `IF(F${r}=0,0,I${r}/F${r})`),
+        num(valueTotal ? h.updatedPresentValue / valueTotal : 0, PERCENT, `IF(SUM(${range("$H")})=0,0,H${r}/SUM(${range("$H")}))`),
+        text(h.priceStatus === "unavailable" ? "Sheet" : "Live"),
+      ];
+    }),
+    [
+      text("Total"),
+      null,
+      null,
+      null,
+      null,
+      num(summary.invested, CURRENCY, `SUM(F${first}:F${last})`),
+      null,
+      num(summary.value, CURRENCY, `SUM(H${first}:H${last})`),
+      num(summary.gainLoss, CURRENCY, `SUM(I${first}:I${last})`),
+      num(summary.returnPct ?? 0, PERCENT, `IF(F${totalRow}=0,0,I${totalRow}/F${totalRow})`),
+    ],
+  ];
+
+  const sectors = sectorRows(holdings);
+  const sectorLast = sectors.length + 1;
+  const sectorRowsOut: (Cell | null)[][] = [
+    ["Sector", "Holdings", "Investment", "Current Value", "Gain/Loss", "Return %", "Weight"].map(text),
+    ...sectors.map((s, i) => {
+      const r = first + i;
+      const ref = (col: string) => `Holdings!${range(`$${col}`)}`;
+      return [
+        text(s.label),
+        num(s.count, "0", `COUNTIF(${ref("C")},A${r})`),
+        num(s.invested, CURRENCY, `SUMIF(${ref("C")},A${r},${ref("F")})`),
+        num(s.value, CURRENCY, `SUMIF(${ref("C")},A${r},${ref("H")})`),
+        num(s.value - s.invested, CURRENCY, `D${r}-C${r}`),
+        num(s.invested ? (s.value - s.invested) / s.invested : 0, PERCENT, `IF(C${r}=0,0,E${r}/C${r})`),
+        num(s.weight, PERCENT, `IF(SUM(D$${first}:D$${sectorLast})=0,0,D${r}/SUM(D$${first}:D$${sectorLast}))`),
+      ];
+    }),
+  ];
+
+  const summaryRows: (Cell | null)[][] = [
+    [text("Portfolio"), text(input.name)],
+    [text("Generated"), text(input.generatedAt)],
+    [text("Holdings"), num(summary.holdings, "0", `COUNTA(Holdings!A${first}:A${last})`)],
+    [text("Total Investment"), num(summary.invested, CURRENCY, `Holdings!F${totalRow}`)],
+    [text("Current Value"), num(summary.value, CURRENCY, `Holdings!H${totalRow}`)],
+    [text("Unrealized Gain/Loss"), num(summary.gainLoss, CURRENCY, "B5-B4")],
+    [text("Overall Return"), num(summary.returnPct ?? 0, PERCENT, "IF(B4=0,0,B6/B4)")],
+    [text("Realized Gain/Loss"), num(summary.realized, CURRENCY)],
+    ...(input.xirr != null ? [[text("XIRR"), num(input.xirr, PERCENT)]] : []),
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, sheet(summaryRows, [22, 30]), "Summary");
+  XLSX.utils.book_append_sheet(wb, sheet(holdingRows, [30, 14, 20, 10, 14, 16, 14, 16, 16, 10, 10, 8]), "Holdings");
+  XLSX.utils.book_append_sheet(wb, sheet(sectorRowsOut, [24, 10, 16, 16, 16, 10, 10]), "Sectors");
+  return XLSX.write(wb, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+// Holdings with the figures already worked out, one row per holding
+export function exportCsv(input: ExportInput): string {
+  const total = summarize(input).value;
+  const rows = [
+    ["Stock", "Code", "Sector", "Quantity", "Purchase Price", "Investment", "Current Price", "Current Value", "Gain/Loss", "Return %", "Weight %"],
+    ...input.holdings.map((h) => [
+      h.name,
+      h.code,
+      h.sector || "Others",
+      h.quantity,
+      h.purchasePrice,
+      h.investment,
+      h.currentPrice,
+      h.updatedPresentValue,
+      h.updatedGainLoss,
+      h.investment ? Number(((h.updatedGainLoss / h.investment) * 100).toFixed(2)) : "",
+      total ? Number(((h.updatedPresentValue / total) * 100).toFixed(2)) : "",
+    ]),
+  ];
+  return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows));
+}
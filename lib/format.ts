@@ -0,0 +1,14 @@
+export const formatCurrency = (v: number) =>
+  Number.isFinite(v)
+    ? new Intl.NumberFormat("en-IN", {
+        style: "currency",
+        currency: "INR",
+        minimumFractionDigits: 2,
+      }).format(v)
+    : "—";
+
+export const formatNumber = (v: number) =>
+  Number.isFinite(v) ? new Intl.NumberFormat("en-IN").format(v) : "—";
+
+export const formatPercent = (v: number) =>
+  Number.isFinite(v) ? v.toFixed(2) + "%" : "—";
@@ -0,0 +1,80 @@
+import { HEADER_SCAN_ROWS, normalizeHeader, type MappingOverrides, type Row } from "./columns";
+
+export interface ImportAdapter {
+  id: string;
+  label: string;
+  // every one of these headers (compared normalized) must appear in the header row
+  signature: string[];
+  columns: MappingOverrides;
+}
+
+export const zerodhaConsole: ImportAdapter = {
+  id: "zerodha-console",
+  label: "Zerodha Console holdings",
+  signature: ["Symbol", "ISIN", "Quantity Available", "Average Price"],
+  columns: {
+    code: "Symbol",
+    isin: "ISIN",
+    sector: "Sector",
+    quantity: "Quantity Available",
+    purchasePrice: "Average Price",
+    cmp: "Previous Closing Price",
+    gainLoss: "Unrealized P&L",
+    gainLossPercent: "Unrealized P&L Pct.",
+  },
+};
+
+// Groww exports have no ticker column, so the ISIN stands in as the code until it is resolved
+export const growwHoldings: ImportAdapter = {
+  id: "groww",
+  label: "Groww holdings",
+  signature: ["Stock Name", "ISIN", "Average buy price"],
+  columns: {
+    name: "Stock Name",
+    code: "ISIN",
+    isin: "ISIN",
+    quantity: "Quantity",
+    purchasePrice: "Average buy price",
+    investment: "Buy value",
+    cmp: "Closing price",
+    presentValue: "Closing value",
+    gainLoss: "Unrealised P&L",
+  },
+};
+
+export const upstoxHoldings: ImportAdapter = {
+  id: "upstox",
+  label: "Upstox holdings",
+  signature: ["Scrip Name", "Symbol", "Net Qty", "Avg. Price"],
+  columns: {
+    name: "Scrip Name",
+    code: "Symbol",
+    isin: "ISIN",
+    quantity: "Net Qty",
+    purchasePrice: "Avg. Price",
+    cmp: "LTP",
+    presentValue: "Current Value",
+    gainLoss: "P&L",
+  },
+};
+
+export const ADAPTERS: ImportAdapter[] = [zerodhaConsole, growwHoldings, upstoxHoldings];
+
+export function detectAdapter(rows: Row[]): { adapter: ImportAdapter; headerRow: number } | null {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const headers = new Set(Array.from(rows[i] ?? [], normalizeHeader));
+    const adapter = ADAPTERS.find((a) => a.signature.every((h) => headers.has(normalizeHeader(h))));
+    if (adapter) return { adapter, headerRow: i };
+  }
+  return null;
+}
+
+// Adapter columns only apply when the header is actually present; user overrides always win
+export function adapterOverrides(adapter: ImportAdapter, headers: string[], overrides: MappingOverrides) {
+  const present = new Set(headers.map(normalizeHeader));
+  const columns: MappingOverrides = {};
+  for (const [key, header] of Object.entries(adapter.columns) as [keyof MappingOverrides, string][]) {
+    if (present.has(normalizeHeader(header))) columns[key] = header;
+  }
+  return { ...columns, ...overrides };
+}
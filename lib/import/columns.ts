@@ -0,0 +1,180 @@
+import { ImportError } from "./errors";
+
+export type Cell = string | number | null | undefined;
+export type Row = Cell[];
+
+export const COLUMN_KEYS = [
+  "name",
+  "code",
+  "isin",
+  "purchasePrice",
+  "quantity",
+  "investment",
+  "portfolioPercent",
+  "cmp",
+  "presentValue",
+  "gainLoss",
+  "gainLossPercent",
+  "marketCap",
+  "peRatio",
+  "sector",
+  "purchaseDate",
+  "assetType",
+] as const;
+
+export type ColumnKey = (typeof COLUMN_KEYS)[number];
+
+// Override values are either a header label ("Avg Cost") or a zero-based column index; -1 unmaps the column
+export type MappingOverrides = Partial<Record<ColumnKey, string | number>>;
+
+export interface ColumnMapping {
+  // zero-based index of the header row in the sheet
+  headerRow: number;
+  headers: string[];
+  columns: Partial<Record<ColumnKey, number>>;
+}
+
+// Without a name column the stock code doubles as the display name
+const REQUIRED: ColumnKey[] = ["code", "purchasePrice", "quantity"];
+
+// Synonyms are compared after normalizeHeader, so "Avg. Cost" and "avg cost" both become "avgcost"
+const SYNONYMS: Record<ColumnKey, string[]> = {
+  name: ["particulars", "name", "stock", "stockname", "company", "companyname", "scrip", "scripname", "security", "securityname", "instrument"],
+  code: ["code", "symbol", "ticker", "tradingsymbol", "nsesymbol", "nsecode", "bsecode", "scripcode", "stockcode", "nsebse"],
+  isin: ["isin", "isincode", "isinno"],
+  purchasePrice: ["purchaseprice", "avgcost", "averagecost", "avgprice", "averageprice", "avgbuyprice", "buyprice", "buyavg", "costprice"],
+  quantity: ["qty", "quantity", "shares", "units", "noofshares", "holdingqty", "quantityavailable", "availableqty"],
+  investment: ["investment", "invested", "investedvalue", "investedamount", "investmentvalue", "costvalue", "totalcost", "buyvalue"],
+  portfolioPercent: ["portfoliopct", "portfolio", "weight", "weightpct", "allocation", "allocationpct"],
+  cmp: ["cmp", "ltp", "currentprice", "lastprice", "marketprice", "closeprice", "closingprice"],
+  presentValue: ["presentvalue", "currentvalue", "marketvalue", "curval", "value"],
+  gainLoss: ["gainloss", "pl", "pnl", "profitloss", "unrealisedpl", "unrealizedpl", "unrealisedpnl", "unrealizedpnl", "overallgainloss"],
+  gainLossPercent: ["gainlosspct", "plpct", "pnlpct", "returnpct", "netchgpct", "gainpct"],
+  marketCap: ["marketcap", "mcap", "marketcapitalisation", "marketcapitalization", "capsize"],
+  peRatio: ["pe", "peratio", "pettm", "priceearnings"],
+  sector: ["sector", "industry"],
+  purchaseDate: ["purchasedate", "buydate", "dateofpurchase", "acquisitiondate", "date"],
+  assetType: ["assettype", "assetclass", "instrumenttype", "holdingtype", "securitytype"],
+};
+
+// Column positions of the original single-layout export, used when its "Particulars" header is found
+const LEGACY_COLUMNS: Partial<Record<ColumnKey, number>> = {
+  name: 1,
+  purchasePrice: 2,
+  quantity: 3,
+  investment: 4,
+  portfolioPercent: 5,
+  code: 6,
+  cmp: 7,
+  presentValue: 8,
+  gainLoss: 9,
+  gainLossPercent: 10,
+  marketCap: 11,
+  peRatio: 12,
+};
+
+export const HEADER_SCAN_ROWS = 25;
+
+export function normalizeHeader(value: Cell): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/%/g, "pct")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Maps each synonym group to the first column whose normalized header is one of its synonyms
+export function matchHeaders<K extends string>(row: Row, synonyms: Record<K, string[]>): Partial<Record<K, number>> {
+  const keys = Object.keys(synonyms) as K[];
+  const columns: Partial<Record<K, number>> = {};
+
+  Array.from(row, normalizeHeader).forEach((header, index) => {
+    if (!header) return;
+    const key = keys.find((k) => synonyms[k].includes(header));
+    if (key && columns[key] === undefined) columns[key] = index;
+  });
+  return columns;
+}
+
+function detectRow(row: Row): Partial<Record<ColumnKey, number>> {
+  return matchHeaders(row, SYNONYMS);
+}
+
+function findHeaderRow(rows: Row[]): { index: number; columns: Partial<Record<ColumnKey, number>> } | null {
+  let best: { index: number; columns: Partial<Record<ColumnKey, number>> } | null = null;
+
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const row = rows[i];
+    if (!row) continue;
+
+    const columns = detectRow(row);
+    if (normalizeHeader(row[1]) === "particulars") return { index: i, columns };
+
+    const score = Object.keys(columns).length;
+    if (score >= 3 && (!best || score > Object.keys(best.columns).length)) {
+      best = { index: i, columns };
+    }
+  }
+
+  return best;
+}
+
+function resolveOverride(value: string | number, headers: string[]): number | undefined {
+  if (typeof value === "number") return Number.isInteger(value) && value >= 0 ? value : undefined;
+
+  const wanted = normalizeHeader(value);
+  const index = headers.findIndex((h) => normalizeHeader(h) === wanted);
+  return index === -1 ? undefined : index;
+}
+
+export function detectColumns(
+  rows: Row[],
+  overrides: MappingOverrides = {},
+  headerRow?: number
+): ColumnMapping {
+  const detected =
+    headerRow === undefined ? findHeaderRow(rows) : { index: headerRow, columns: detectRow(rows[headerRow] ?? []) };
+  if (!detected) throw new ImportError("Could not find a header row with recognizable column names");
+
+  const headers = Array.from(rows[detected.index] ?? [], (cell) => String(cell ?? "").trim());
+  const isLegacy = normalizeHeader(rows[detected.index][1]) === "particulars";
+  const columns = isLegacy ? { ...LEGACY_COLUMNS, ...detected.columns } : { ...detected.columns };
+
+  for (const [key, value] of Object.entries(overrides) as [ColumnKey, string | number][]) {
+    if (!COLUMN_KEYS.includes(key)) continue;
+    if (value === -1) {
+      delete columns[key];
+      continue;
+    }
+
+    const index = resolveOverride(value, headers);
+    if (index === undefined) throw new ImportError(`Mapped column "${value}" for ${key} was not found`);
+    columns[key] = index;
+  }
+
+  const missing = REQUIRED.filter((key) => columns[key] === undefined);
+  if (missing.length) throw new ImportError(`Missing required columns: ${missing.join(", ")}`);
+
+  return { headerRow: detected.index, headers, columns };
+}
+
+export function parseMappingOverrides(raw: unknown): MappingOverrides {
+  if (raw == null || raw === "") return {};
+
+  let value: unknown;
+  try {
+    value = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    throw new ImportError("Column mapping must be valid JSON");
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ImportError("Column mapping must be an object of column name to header or index");
+  }
+
+  const overrides: MappingOverrides = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (COLUMN_KEYS.includes(key as ColumnKey) && (typeof v === "string" || typeof v === "number")) {
+      overrides[key as ColumnKey] = v;
+    }
+  }
+  return overrides;
+}
@@ -0,0 +1,7 @@
+// Problems with the uploaded file itself; the API reports these to the user as a 400
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
@@ -0,0 +1,171 @@
+import * as XLSX from "xlsx";
+import type { StockData } from "../types";
+import { adapterOverrides, detectAdapter } from "./adapters";
+import { detectColumns, type Cell, type ColumnKey, type ColumnMapping, type MappingOverrides, type Row } from "./columns";
+import type { Transaction } from "../ledger/types";
+import { issue, type ImportIssue } from "./issues";
+import { extractCode, isFundIsin, isNumeric, parseAssetType, parseDate, parseNumber, toInt } from "./parse";
+import { isTransactionSheet, parseTransactionSheet } from "./transactions";
+
+export interface ParseResult {
+  stocks: StockData[];
+  // dated ledger entries from a "transactions" sheet, applied on top of the holdings as opening balances
+  transactions: Transaction[];
+  issues: ImportIssue[];
+  mapping: ColumnMapping | null;
+  format: { id: string; label: string };
+}
+
+interface HoldingsResult {
+  stocks: StockData[];
+  issues: ImportIssue[];
+  mapping: ColumnMapping;
+  format: { id: string; label: string };
+}
+
+const GENERIC_FORMAT = { id: "generic", label: "Generic spreadsheet" };
+const LEDGER_FORMAT = { id: "ledger", label: "Transaction ledger" };
+
+const sheetRows = (sheet: XLSX.WorkSheet) => XLSX.utils.sheet_to_json(sheet, { header: 1 }) as Row[];
+
+// Reads .xlsx/.xls workbooks and .csv text alike; SheetJS sniffs the format from the bytes.
+// raw keeps CSV cells as text so day-first dates are not misread as US dates.
+export function parseExcelData(buffer: Buffer, overrides: MappingOverrides = {}): ParseResult {
+  const workbook = XLSX.read(buffer, { type: "buffer", raw: true });
+
+  const ledgerSheet = workbook.SheetNames.find((name) =>
+    isTransactionSheet(name, sheetRows(workbook.Sheets[name]))
+  );
+  const holdingsSheet = workbook.SheetNames.find((name) => name !== ledgerSheet);
+
+  const ledger = ledgerSheet
+    ? parseTransactionSheet(ledgerSheet, sheetRows(workbook.Sheets[ledgerSheet]))
+    : { transactions: [], issues: [] };
+
+  if (!holdingsSheet) {
+    return { stocks: [], transactions: ledger.transactions, issues: ledger.issues, mapping: null, format: LEDGER_FORMAT };
+  }
+
+  const holdings = parseHoldingsSheet(sheetRows(workbook.Sheets[holdingsSheet]), overrides);
+  return {
+    ...holdings,
+    transactions: ledger.transactions,
+    issues: [...holdings.issues, ...ledger.issues],
+  };
+}
+
+function parseHoldingsSheet(rows: Row[], overrides: MappingOverrides): HoldingsResult {
+  const detected = detectAdapter(rows);
+  const mapping = detected
+    ? detectColumns(
+        rows,
+        adapterOverrides(detected.adapter, Array.from(rows[detected.headerRow], (c) => String(c ?? "")), overrides),
+        detected.headerRow
+      )
+    : detectColumns(rows, overrides);
+
+  const cell = (row: Row, key: ColumnKey): Cell => {
+    const index = mapping.columns[key];
+    return index === undefined ? undefined : row[index];
+  };
+
+  const rawValues = (row: Row) => {
+    const values: ImportIssue["values"] = {};
+    for (const [key, index] of Object.entries(mapping.columns) as [ColumnKey, number][]) {
+      values[key] = row[index] ?? null;
+    }
+    return values;
+  };
+
+  const stocks: StockData[] = [];
+  const issues: ImportIssue[] = [];
+
+  for (let i = mapping.headerRow + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row || row.every((c) => c == null || String(c).trim() === "")) continue;
+
+    const rowNumber = i + 1;
+    const values = rawValues(row);
+    const skip = (reason: ImportIssue["reason"], detail?: string) =>
+      issues.push(issue(rowNumber, "skipped", reason, values, detail));
+
+    const code = extractCode(cell(row, "code"));
+    const name = cell(row, "name")?.toString().trim() || (mapping.columns.name === undefined ? code : "");
+
+    if (!name) {
+      skip("missing-name");
+      continue;
+    }
+    if (!code) {
+      skip("missing-code");
+      continue;
+    }
+
+    const rawPrice = cell(row, "purchasePrice");
+    const rawQuantity = cell(row, "quantity");
+    if (!isNumeric(rawPrice)) {
+      skip("non-numeric-price", String(rawPrice ?? "empty"));
+      continue;
+    }
+    if (!isNumeric(rawQuantity)) {
+      skip("non-numeric-quantity", String(rawQuantity ?? "empty"));
+      continue;
+    }
+
+    const isin = cell(row, "isin")?.toString().trim() || undefined;
+    const assetType = parseAssetType(cell(row, "assetType")) ?? undefined;
+    // fund units come in fractions; everything listed trades in whole shares
+    const fund = assetType === "mutual-fund" || (!assetType && (isFundIsin(isin) || isFundIsin(code)));
+
+    const purchasePrice = parseNumber(rawPrice);
+    const quantity = fund ? Math.round(parseNumber(rawQuantity) * 1000) / 1000 : toInt(rawQuantity);
+    if (purchasePrice <= 0) {
+      skip("zero-price");
+      continue;
+    }
+    if (quantity <= 0) {
+      skip("zero-quantity");
+      continue;
+    }
+
+    if (!fund && !Number.isInteger(parseNumber(rawQuantity))) {
+      issues.push(issue(rowNumber, "warning", "fractional-quantity", values, `${parseNumber(rawQuantity)} → ${quantity}`));
+    }
+
+    const investment = parseNumber(cell(row, "investment"));
+    const expected = purchasePrice * quantity;
+    // 1% (or ₹1) slack absorbs brokers rounding the average cost
+    if (investment && Math.abs(investment - expected) > Math.max(1, expected * 0.01)) {
+      issues.push(
+        issue(rowNumber, "warning", "investment-mismatch", values, `${investment} vs ${expected.toFixed(2)}`)
+      );
+    }
+
+    stocks.push({
+      name,
+      code,
+      isin,
+      assetType,
+      purchasePrice,
+      quantity,
+      investment: investment || expected,
+      portfolioPercent: cell(row, "portfolioPercent")?.toString() || "",
+      cmp: parseNumber(cell(row, "cmp")),
+      presentValue: parseNumber(cell(row, "presentValue")),
+      gainLoss: parseNumber(cell(row, "gainLoss")),
+      gainLossPercent: cell(row, "gainLossPercent")?.toString() || "",
+      marketCap: cell(row, "marketCap")?.toString() || "",
+      peRatio: cell(row, "peRatio")?.toString() || "",
+      purchaseDate: parseDate(cell(row, "purchaseDate")) ?? undefined,
+      // left unset without a sector column; analysis fills it in from the instrument master
+      sector: cell(row, "sector")?.toString().trim() || undefined,
+    });
+  }
+
+  return {
+    stocks,
+    issues,
+    mapping,
+    format: detected ? { id: detected.adapter.id, label: detected.adapter.label } : GENERIC_FORMAT,
+  };
+}
@@ -0,0 +1,16 @@
+export { ADAPTERS, detectAdapter, type ImportAdapter } from "./adapters";
+export { ImportError } from "./errors";
+export {
+  COLUMN_KEYS,
+  detectColumns,
+  normalizeHeader,
+  parseMappingOverrides,
+  type ColumnKey,
+  type ColumnMapping,
+  type MappingOverrides,
+} from "./columns";
+export { parseExcelData, type ParseResult } from "./excel";
+export { parseUpload } from "./upload";
+export type { ImportIssue, IssueReason, IssueSeverity } from "./issues";
+export { extractCode, isFundIsin, isNumeric, parseAssetType, parseDate, parseNumber, toInt } from "./parse";
+export { isTransactionSheet, parseTransactionSheet } from "./transactions";
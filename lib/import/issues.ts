@@ -0,0 +1,63 @@
+import type { Cell } from "./columns";
+
+export type IssueReason =
+  | "missing-name"
+  | "missing-code"
+  | "non-numeric-price"
+  | "zero-price"
+  | "non-numeric-quantity"
+  | "zero-quantity"
+  | "fractional-quantity"
+  | "investment-mismatch"
+  | "invalid-date"
+  | "unknown-transaction-type"
+  | "missing-ratio"
+  | "oversold"
+  | "undated-lots";
+
+// "skipped" rows never reach the portfolio; "warning" rows are imported but look wrong
+export type IssueSeverity = "skipped" | "warning";
+
+export interface ImportIssue {
+  sheet?: string;
+  // 1-based, as shown by spreadsheet apps
+  row: number;
+  severity: IssueSeverity;
+  reason: IssueReason;
+  message: string;
+  values: Record<string, Cell>;
+}
+
+const MESSAGES: Record<IssueReason, string> = {
+  "missing-name": "Row has no stock name",
+  "missing-code": "Row has no recognizable stock code",
+  "non-numeric-price": "Purchase price is not a number",
+  "zero-price": "Purchase price is zero or negative",
+  "non-numeric-quantity": "Quantity is not a number",
+  "zero-quantity": "Quantity is zero or negative",
+  "fractional-quantity": "Quantity is not a whole number and was rounded",
+  "investment-mismatch": "Investment does not match purchase price × quantity",
+  "invalid-date": "Date is missing or not recognized",
+  "unknown-transaction-type": "Transaction type is not BUY, SELL, SPLIT, BONUS, DIVIDEND or RIGHTS",
+  "missing-ratio": "Split, bonus or rights issue has no ratio",
+  "oversold": "Sell quantity exceeds the shares held",
+  "undated-lots": "Split or bonus not applied to holdings without a purchase date",
+};
+
+export function issue(
+  row: number,
+  severity: IssueSeverity,
+  reason: IssueReason,
+  values: ImportIssue["values"],
+  detail?: string,
+  sheet?: string
+): ImportIssue {
+  return {
+    sheet,
+    row,
+    severity,
+    reason,
+    message: detail ? `${MESSAGES[reason]} (${detail})` : MESSAGES[reason],
+    values,
+  };
+}
@@ -0,0 +1,88 @@
+import type { AssetType } from "../types";
+
+// ✅ safer than any
+export function parseNumber(value: unknown): number {
+  if (value == null) return 0;
+  if (typeof value === "number") return value;
+
+  const cleaned = String(value)
+    .replace(/₹|Rs\.?|INR/gi, "")
+    .replace(/,/g, "");
+
+  const parsed = parseFloat(cleaned.replace(/[^0-9.\-]/g, ""));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// ✅ use unknown instead of any
+export function toInt(value: unknown): number {
+  return Math.round(parseNumber(value));
+}
+
+// True when parseNumber would read a real number rather than defaulting to 0
+export function isNumeric(value: unknown): boolean {
+  if (typeof value === "number") return Number.isFinite(value);
+  if (value == null) return false;
+
+  const cleaned = String(value)
+    .replace(/₹|Rs\.?|INR/gi, "")
+    .replace(/,/g, "")
+    .trim();
+  return cleaned !== "" && Number.isFinite(Number(cleaned));
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+// Accepts Excel serial dates, ISO dates and the day-first formats Indian brokers export (31/03/2024, 31-Mar-2024)
+export function parseDate(value: unknown): string | null {
+  if (value == null || value === "") return null;
+
+  if (typeof value === "number") {
+    // Excel serial day 25569 is 1970-01-01
+    if (!Number.isFinite(value) || value <= 0) return null;
+    return new Date(Math.round((value - 25569) * 86_400_000)).toISOString().slice(0, 10);
+  }
+
+  const text = String(value).trim();
+  let m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return isoDate(+m[1], +m[2], +m[3]);
+
+  m = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/);
+  if (m) return isoDate(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[2], +m[1]);
+
+  m = text.match(/^(\d{1,2})[\s\-]([A-Za-z]{3})[A-Za-z]*[\s\-,]+(\d{2,4})$/);
+  if (m) {
+    const month = MONTHS.indexOf(m[2].toLowerCase()) + 1;
+    return month ? isoDate(m[3].length === 2 ? 2000 + +m[3] : +m[3], month, +m[1]) : null;
+  }
+
+  return null;
+}
+
+// "ETF", "Mutual Fund", "MF", "Equity", "Stock"...; null when the cell doesn't say
+export function parseAssetType(value: unknown): AssetType | null {
+  const text = value == null ? "" : String(value).trim().toLowerCase();
+  if (!text) return null;
+  if (/\betf\b|exchange[\s-]*traded/.test(text)) return "etf";
+  if (/mutual|^mf$|\bfund\b|scheme/.test(text)) return "mutual-fund";
+  if (/equit|stock|share/.test(text)) return "equity";
+  return null;
+}
+
+// Mutual fund ISINs carry the "INF" issuer prefix
+export const isFundIsin = (value: string | undefined) => /^INF[A-Z0-9]{9}$/.test(value?.trim().toUpperCase() ?? "");
+
+// Clean tickers (LT, M&M, BAJAJ-AUTO, 500325) and ISINs are taken as-is; free text falls back to a search
+export function extractCode(value: unknown): string {
+  const raw = value == null ? "" : String(value);
+  const text = raw.trim().toUpperCase();
+  if (/^IN[A-Z0-9]{10}$/.test(text) || /^[A-Z0-9&.\-]+$/.test(text)) return text;
+
+  const match = raw.match(/\b\d{4,6}\b|[A-Z\.]{3,}/);
+  return match ? match[0] : "";
+}
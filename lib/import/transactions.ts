@@ -0,0 +1,145 @@
+import type { Transaction, TransactionType } from "../ledger/types";
+import { HEADER_SCAN_ROWS, matchHeaders, type Cell, type Row } from "./columns";
+import { issue, type ImportIssue } from "./issues";
+import { extractCode, isNumeric, parseDate, parseNumber } from "./parse";
+
+type TransactionColumn = "date" | "code" | "name" | "type" | "quantity" | "price" | "ratio" | "amount";
+
+const SYNONYMS: Record<TransactionColumn, string[]> = {
+  date: ["date", "tradedate", "transactiondate", "txndate", "orderdate", "exdate", "recorddate"],
+  code: ["symbol", "code", "ticker", "tradingsymbol", "scripcode", "stockcode", "nsesymbol"],
+  name: ["name", "stock", "stockname", "company", "companyname", "scrip", "scripname", "particulars"],
+  type: ["type", "tradetype", "transactiontype", "txntype", "action", "side", "buysell"],
+  quantity: ["quantity", "qty", "shares", "units"],
+  price: ["price", "rate", "tradeprice", "pricepershare", "dividendpershare"],
+  ratio: ["ratio", "splitratio", "bonusratio"],
+  amount: ["amount", "netamount", "dividendamount"],
+};
+
+const TYPES: Record<string, TransactionType> = {
+  buy: "BUY",
+  b: "BUY",
+  purchase: "BUY",
+  sell: "SELL",
+  s: "SELL",
+  sale: "SELL",
+  split: "SPLIT",
+  stocksplit: "SPLIT",
+  subdivision: "SPLIT",
+  bonus: "BONUS",
+  bonusissue: "BONUS",
+  dividend: "DIVIDEND",
+  div: "DIVIDEND",
+  rights: "RIGHTS",
+  rightsissue: "RIGHTS",
+  rightsallotment: "RIGHTS",
+};
+
+const SHEET_NAME = /^(transactions?|ledger|trades?|tradebook)$/i;
+
+function locate(rows: Row[]) {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const columns = matchHeaders(rows[i] ?? [], SYNONYMS);
+    if (columns.date !== undefined && columns.code !== undefined && columns.type !== undefined) {
+      return { headerRow: i, columns };
+    }
+  }
+  return null;
+}
+
+export function isTransactionSheet(name: string, rows: Row[]): boolean {
+  return SHEET_NAME.test(name.trim()) || locate(rows) !== null;
+}
+
+export function parseRatio(value: Cell): [number, number] | undefined {
+  const m = String(value ?? "").match(/(\d+(?:\.\d+)?)\s*[:\/]\s*(\d+(?:\.\d+)?)/);
+  return m ? [Number(m[1]), Number(m[2])] : undefined;
+}
+
+export function parseTransactionSheet(
+  sheet: string,
+  rows: Row[]
+): { transactions: Transaction[]; issues: ImportIssue[] } {
+  const transactions: Transaction[] = [];
+  const issues: ImportIssue[] = [];
+
+  const located = locate(rows);
+  if (!located) return { transactions, issues };
+
+  const { headerRow, columns } = located;
+  const cell = (row: Row, key: TransactionColumn): Cell => {
+    const index = columns[key];
+    return index === undefined ? undefined : row[index];
+  };
+
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row || row.every((c) => c == null || String(c).trim() === "")) continue;
+
+    const values: ImportIssue["values"] = {};
+    for (const [key, index] of Object.entries(columns) as [TransactionColumn, number][]) {
+      values[key] = row[index] ?? null;
+    }
+    const skip = (reason: ImportIssue["reason"], detail?: string) =>
+      issues.push(issue(i + 1, "skipped", reason, values, detail, sheet));
+
+    const code = extractCode(cell(row, "code"));
+    const date = parseDate(cell(row, "date"));
+    const type = TYPES[String(cell(row, "type") ?? "").toLowerCase().replace(/[^a-z]/g, "")];
+
+    if (!code) {
+      skip("missing-code");
+      continue;
+    }
+    if (!date) {
+      skip("invalid-date", String(cell(row, "date") ?? "empty"));
+      continue;
+    }
+    if (!type) {
+      skip("unknown-transaction-type", String(cell(row, "type") ?? "empty"));
+      continue;
+    }
+
+    const ratio = parseRatio(cell(row, "ratio"));
+    if ((type === "SPLIT" || type === "BONUS") && !ratio) {
+      skip("missing-ratio");
+      continue;
+    }
+
+    const rawQuantity = cell(row, "quantity");
+    const rawPrice = cell(row, "price");
+    if (type === "RIGHTS" && !ratio && !isNumeric(rawQuantity)) {
+      skip("missing-ratio");
+      continue;
+    }
+    if ((type === "BUY" || type === "SELL") && !isNumeric(rawQuantity)) {
+      skip("non-numeric-quantity", String(rawQuantity ?? "empty"));
+      continue;
+    }
+    if ((type === "BUY" || type === "SELL" || type === "RIGHTS") && !isNumeric(rawPrice)) {
+      skip("non-numeric-price", String(rawPrice ?? "empty"));
+      continue;
+    }
+
+    const quantity = Math.abs(parseNumber(rawQuantity));
+    if ((type === "BUY" || type === "SELL") && !quantity) {
+      skip("zero-quantity");
+      continue;
+    }
+
+    const amount = cell(row, "amount");
+    transactions.push({
+      date,
+      code,
+      name: cell(row, "name")?.toString().trim() || undefined,
+      type,
+      quantity,
+      price: parseNumber(rawPrice),
+      ratio,
+      amount: type === "DIVIDEND" && isNumeric(amount) ? parseNumber(amount) : undefined,
+      source: { sheet, row: i + 1 },
+    });
+  }
+
+  return { transactions, issues };
+}
@@ -0,0 +1,15 @@
+import { parseMappingOverrides } from "./columns";
+import { ImportError } from "./errors";
+import { parseExcelData, type ParseResult } from "./excel";
+
+// Reads the "file" (and optional "mapping") fields of an upload form
+export async function parseUpload(formData: FormData): Promise<ParseResult> {
+  const file = formData.get("file") as File | null;
+
+  if (!file) throw new ImportError("No file uploaded");
+  if (!/\.(xlsx|xls|csv)$/i.test(file.name)) throw new ImportError("Invalid file type");
+
+  const overrides = parseMappingOverrides(formData.get("mapping"));
+  const buffer = Buffer.from(await file.arrayBuffer());
+  return parseExcelData(buffer, overrides);
+}
@@ -0,0 +1,52 @@
+import type { DividendPayment } from "../ledger/types";
+
+// Yields are on the last year's dividends, as exchanges quote them
+export const TRAILING_DAYS = 365;
+
+const DAY_MS = 86_400_000;
+
+export interface IncomeInput {
+  investment: number;
+  value: number;
+  gainLoss: number;
+  realizedGainLoss?: number;
+  // all dividends received, and those in the trailing year
+  dividends?: number;
+  dividendsTtm?: number;
+}
+
+export interface IncomeFigures {
+  // trailing dividends over current value and over cost, as fractions
+  dividendYield: number | null;
+  yieldOnCost: number | null;
+  // unrealized + realized gains + dividends
+  totalReturn: number;
+  totalReturnPct: number | null;
+}
+
+// Dividends received per code in the TRAILING_DAYS up to `asOf`; undated payments are left out
+export function trailingDividends(
+  dividends: DividendPayment[],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): Map<string, number> {
+  const from = new Date(Date.parse(asOf) - TRAILING_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const totals = new Map<string, number>();
+  for (const d of dividends) {
+    if (!d.date || d.date <= from || d.date > asOf) continue;
+    totals.set(d.code, (totals.get(d.code) ?? 0) + d.amount);
+  }
+  return totals;
+}
+
+// Works for a single holding or for portfolio totals. Yields use amounts rather than per-share rates,
+// so they stay right across splits and bonuses.
+export function incomeFigures(input: IncomeInput): IncomeFigures {
+  const ttm = input.dividendsTtm ?? 0;
+  const totalReturn = input.gainLoss + (input.realizedGainLoss ?? 0) + (input.dividends ?? 0);
+  return {
+    dividendYield: input.value > 0 ? ttm / input.value : null,
+    yieldOnCost: input.investment > 0 ? ttm / input.investment : null,
+    totalReturn,
+    totalReturnPct: input.investment > 0 ? totalReturn / input.investment : null,
+  };
+}
@@ -0,0 +1,45 @@
+import path from "path";
+import { createJsonDocument, DATA_DIR } from "../storage";
+import { normalizeName } from "./master";
+import type { InstrumentQuery } from "./types";
+
+// Symbols the user confirmed for codes, ISINs or names the master couldn't match by itself
+const aliases = createJsonDocument(path.join(DATA_DIR, "symbol-aliases.json"), () => ({
+  aliases: {} as Record<string, string>,
+}));
+
+function aliasKeys({ isin, code, name }: InstrumentQuery): string[] {
+  const keys: string[] = [];
+  if (isin?.trim()) keys.push(`isin:${isin.trim().toUpperCase()}`);
+  if (code?.trim()) keys.push(`code:${code.trim().toUpperCase()}`);
+  if (name && normalizeName(name)) keys.push(`name:${normalizeName(name)}`);
+  return keys;
+}
+
+export async function listAliases(): Promise<Record<string, string>> {
+  return (await aliases.read()).aliases;
+}
+
+// Checked in the same order as the master: ISIN, code, name
+export async function findAlias(query: InstrumentQuery): Promise<string | undefined> {
+  const all = await listAliases();
+  return aliasKeys(query)
+    .map((key) => all[key])
+    .find(Boolean);
+}
+
+// Remembers the choice under every identifier the row had, so later imports match on any of them
+export async function rememberAlias(query: InstrumentQuery, symbol: string): Promise<string[]> {
+  const keys = aliasKeys(query);
+  await aliases.mutate((contents) => {
+    for (const key of keys) contents.aliases[key] = symbol;
+  });
+  return keys;
+}
+
+export async function forgetAlias(query: InstrumentQuery): Promise<void> {
+  const keys = aliasKeys(query);
+  await aliases.mutate((contents) => {
+    for (const key of keys) delete contents.aliases[key];
+  });
+}
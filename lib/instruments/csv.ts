@@ -0,0 +1,67 @@
+import * as XLSX from "xlsx";
+import { matchHeaders, type Row } from "../import/columns";
+import { ImportError } from "../import/errors";
+import { parseMarketCap } from "./marketCap";
+import type { Instrument } from "./types";
+
+// Covers NSE's EQUITY_L.csv, BSE's "List of Scrips" export and the bundled master's own header
+const SYNONYMS = {
+  symbol: ["symbol", "nsesymbol", "securityid", "scripid", "tradingsymbol"],
+  bseCode: ["bsecode", "securitycode", "scripcode"],
+  isin: ["isin", "isinnumber", "isinno", "isincode"],
+  name: ["name", "nameofcompany", "companyname", "issuername", "securityname"],
+  sector: ["sector", "sectorname", "macroeconomicsector"],
+  industry: ["industry", "industrynewname", "basicindustry", "industryname"],
+  marketCap: ["marketcap", "marketcapbucket", "capsize", "category"],
+  series: ["series"],
+  status: ["status"],
+};
+
+// Equity series only; the rest are bonds, warrants and the like
+const EQUITY_SERIES = new Set(["EQ", "BE", "BZ", "SM", "ST"]);
+
+export interface ParsedInstruments {
+  instruments: Instrument[];
+  skipped: number;
+}
+
+export function parseInstrumentCsv(text: string): ParsedInstruments {
+  const workbook = XLSX.read(text, { type: "string", raw: true });
+  const rows = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1 }) as Row[];
+  const columns = matchHeaders(rows[0] ?? [], SYNONYMS);
+  if (columns.isin === undefined && columns.symbol === undefined && columns.bseCode === undefined) {
+    throw new ImportError("CSV needs an ISIN, symbol or BSE code column");
+  }
+
+  const field = (row: Row, key: keyof typeof SYNONYMS) =>
+    columns[key] === undefined ? "" : String(row[columns[key]!] ?? "").trim();
+
+  const instruments: Instrument[] = [];
+  let skipped = 0;
+
+  for (const row of rows.slice(1)) {
+    if (!row?.length) continue;
+    const series = field(row, "series").toUpperCase();
+    const status = field(row, "status").toLowerCase();
+    const symbol = field(row, "symbol").toUpperCase();
+    const bseCode = field(row, "bseCode");
+    const isin = field(row, "isin").toUpperCase();
+
+    if ((series && !EQUITY_SERIES.has(series)) || (status && status !== "active") || (!symbol && !bseCode)) {
+      skipped++;
+      continue;
+    }
+
+    instruments.push({
+      symbol: symbol || bseCode,
+      bseCode: /^\d+$/.test(bseCode) ? bseCode : undefined,
+      isin: /^IN[A-Z0-9]{10}$/.test(isin) ? isin : undefined,
+      name: field(row, "name") || symbol || bseCode,
+      sector: field(row, "sector") || undefined,
+      industry: field(row, "industry") || undefined,
+      marketCap: parseMarketCap(field(row, "marketCap")),
+    });
+  }
+
+  return { instruments, skipped };
+}
@@ -0,0 +1,20 @@
+export type { ImportSummary, Instrument, InstrumentQuery, MarketCapBucket } from "./types";
+export { parseInstrumentCsv, type ParsedInstruments } from "./csv";
+export { parseMarketCap } from "./marketCap";
+export {
+  findInstrument,
+  getInstruments,
+  importInstruments,
+  lookupInstrument,
+  normalizeName,
+  type MatchKind,
+} from "./master";
+export { findAlias, forgetAlias, listAliases, rememberAlias } from "./aliases";
+export {
+  rankCandidates,
+  resolveSymbol,
+  similarity,
+  type Candidate,
+  type Resolution,
+  type ResolutionKind,
+} from "./resolve";
@@ -0,0 +1,19 @@
+import { envNumber } from "../env";
+import type { MarketCapBucket } from "./types";
+
+// Rough full-market-cap cut-offs (₹ crore) for AMFI's top-100 / next-150 ranking
+const LARGE_CAP_MIN_CR = envNumber("LARGE_CAP_MIN_CR", 100_000);
+const MID_CAP_MIN_CR = envNumber("MID_CAP_MIN_CR", 30_000);
+
+// Accepts a bucket label ("Large Cap", "mid", "Smallcap") or a market cap in ₹ crore
+export function parseMarketCap(value: unknown): MarketCapBucket | undefined {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (!text) return undefined;
+  if (text.startsWith("large")) return "Large";
+  if (text.startsWith("mid")) return "Mid";
+  if (text.startsWith("small") || text.startsWith("micro")) return "Small";
+
+  const crore = Number(text.replace(/[,₹\s]|cr(ore)?s?\.?$/g, ""));
+  if (!Number.isFinite(crore) || crore <= 0) return undefined;
+  return crore >= LARGE_CAP_MIN_CR ? "Large" : crore >= MID_CAP_MIN_CR ? "Mid" : "Small";
+}
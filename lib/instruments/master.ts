@@ -0,0 +1,156 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { createJsonDocument, DATA_DIR } from "../storage";
+import { parseInstrumentCsv } from "./csv";
+import type { ImportSummary, Instrument, InstrumentQuery } from "./types";
+
+// The bundled seed list ships with the app; imports are merged into a copy under the data directory
+const BUNDLED_FILE = path.resolve(process.cwd(), process.env.INSTRUMENT_MASTER_FILE || "data/instruments.csv");
+const USER_FILE = path.join(DATA_DIR, "instruments.json");
+
+interface Index {
+  instruments: Instrument[];
+  byIsin: Map<string, Instrument>;
+  bySymbol: Map<string, Instrument>;
+  byBseCode: Map<string, Instrument>;
+  byName: Map<string, Instrument>;
+}
+
+let index: Index | null = null;
+
+// "Dr. Reddy's Laboratories Ltd" and "DR REDDYS LABORATORIES LIMITED" compare equal
+export function normalizeName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/[^A-Z0-9 ]/g, "")
+    .replace(/\b(THE|LIMITED|LTD|INDIA)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function buildIndex(instruments: Instrument[]): Index {
+  const built: Index = {
+    instruments,
+    byIsin: new Map(),
+    bySymbol: new Map(),
+    byBseCode: new Map(),
+    byName: new Map(),
+  };
+  for (const i of instruments) {
+    if (i.isin) built.byIsin.set(i.isin, i);
+    built.bySymbol.set(i.symbol, i);
+    if (i.bseCode) built.byBseCode.set(i.bseCode, i);
+    const name = normalizeName(i.name);
+    if (name && !built.byName.has(name)) built.byName.set(name, i);
+  }
+  return built;
+}
+
+function readBundled(): Instrument[] {
+  try {
+    return parseInstrumentCsv(readFileSync(BUNDLED_FILE, "utf8")).instruments;
+  } catch (err) {
+    console.error(`Failed to read instrument master ${BUNDLED_FILE}:`, err);
+    return [];
+  }
+}
+
+// Loaded synchronously on first use so sector lookups stay synchronous during parsing
+function getIndex(): Index {
+  if (!index) {
+    let instruments: Instrument[];
+    try {
+      instruments = (JSON.parse(readFileSync(USER_FILE, "utf8")) as { instruments: Instrument[] }).instruments;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read instrument master ${USER_FILE}:`, err);
+      }
+      instruments = readBundled();
+    }
+    index = buildIndex(instruments);
+  }
+  return index;
+}
+
+export function getInstruments(): Instrument[] {
+  return getIndex().instruments;
+}
+
+export type MatchKind = "isin" | "symbol" | "bse-code" | "name";
+
+// ISIN first, then the code as an NSE symbol or BSE code, then the company name
+export function findInstrument({
+  isin,
+  code,
+  name,
+}: InstrumentQuery): { instrument: Instrument; matchedBy: MatchKind } | undefined {
+  const { byIsin, bySymbol, byBseCode, byName } = getIndex();
+  const c = code?.trim().toUpperCase().replace(/\.(NS|BO)$/, "");
+  const candidates: [Instrument | undefined, MatchKind][] = [
+    [isin ? byIsin.get(isin.trim().toUpperCase()) : undefined, "isin"],
+    [c ? byIsin.get(c) : undefined, "isin"],
+    [c ? bySymbol.get(c) : undefined, "symbol"],
+    [c ? byBseCode.get(c) : undefined, "bse-code"],
+    [name ? byName.get(normalizeName(name)) : undefined, "name"],
+  ];
+
+  const found = candidates.find(([instrument]) => instrument);
+  return found && { instrument: found[0]!, matchedBy: found[1] };
+}
+
+export function lookupInstrument(query: InstrumentQuery): Instrument | undefined {
+  return findInstrument(query)?.instrument;
+}
+
+const userMaster = createJsonDocument(USER_FILE, () => ({ instruments: readBundled() }));
+
+// Listing details (symbol, codes, name) only fill gaps; classification from the file wins
+function merge(existing: Instrument, incoming: Instrument): Instrument {
+  return {
+    symbol: existing.symbol || incoming.symbol,
+    bseCode: existing.bseCode ?? incoming.bseCode,
+    isin: existing.isin ?? incoming.isin,
+    name: existing.name || incoming.name,
+    sector: incoming.sector ?? existing.sector,
+    industry: incoming.industry ?? existing.industry,
+    marketCap: incoming.marketCap ?? existing.marketCap,
+  };
+}
+
+// Merges an NSE/BSE equity list (or a file in the bundled format) into the master
+export async function importInstruments(csv: string): Promise<ImportSummary> {
+  const parsed = parseInstrumentCsv(csv);
+
+  const { summary, instruments } = await userMaster.mutate((contents) => {
+    const { byIsin, bySymbol, byBseCode } = buildIndex(contents.instruments);
+    let added = 0;
+    let updated = 0;
+
+    for (const incoming of parsed.instruments) {
+      const existing =
+        (incoming.isin && byIsin.get(incoming.isin)) ||
+        (incoming.bseCode && byBseCode.get(incoming.bseCode)) ||
+        bySymbol.get(incoming.symbol);
+
+      if (existing) {
+        Object.assign(existing, merge(existing, incoming));
+        updated++;
+      } else {
+        contents.instruments.push(incoming);
+        if (incoming.isin) byIsin.set(incoming.isin, incoming);
+        if (incoming.bseCode) byBseCode.set(incoming.bseCode, incoming);
+        bySymbol.set(incoming.symbol, incoming);
+        added++;
+      }
+    }
+
+    return {
+      summary: { added, updated, skipped: parsed.skipped, total: contents.instruments.length },
+      instruments: contents.instruments,
+    };
+  });
+
+  index = buildIndex(instruments);
+  return summary;
+}
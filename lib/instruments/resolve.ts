@@ -0,0 +1,116 @@
+import { findAlias } from "./aliases";
+import { findInstrument, getInstruments, normalizeName, type MatchKind } from "./master";
+import type { Instrument, InstrumentQuery } from "./types";
+
+export type ResolutionKind = MatchKind | "alias";
+
+export interface Candidate {
+  symbol: string;
+  name: string;
+  isin?: string;
+  bseCode?: string;
+  // 1 for exact matches, a 0-1 similarity otherwise
+  score: number;
+  matchedBy: ResolutionKind | "fuzzy";
+}
+
+export interface Resolution {
+  // exchange ticker to price with; null when nothing matched exactly
+  symbol: string | null;
+  matchedBy: ResolutionKind | null;
+  candidates: Candidate[];
+}
+
+const MIN_SCORE = 0.4;
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const s = text.replace(/\s+/g, "");
+  for (let i = 0; i < s.length - 1; i++) {
+    const pair = s.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Sørensen–Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing in common
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const x = bigrams(a);
+  const y = bigrams(b);
+  let shared = 0;
+  let total = 0;
+  for (const [pair, n] of x) {
+    shared += Math.min(n, y.get(pair) ?? 0);
+    total += n;
+  }
+  for (const n of y.values()) total += n;
+  return total ? (2 * shared) / total : 0;
+}
+
+// "HDFC BANK" inside "HDFC BANK" or "TATA MOTORS" inside "TATA MOTORS PASSENGER VEHICLES"
+function containsWords(longer: string, shorter: string): boolean {
+  const words = new Set(longer.split(" "));
+  return !!shorter && shorter.split(" ").every((w) => words.has(w));
+}
+
+function candidate(instrument: Instrument, score: number, matchedBy: Candidate["matchedBy"]): Candidate {
+  return {
+    symbol: instrument.symbol,
+    name: instrument.name,
+    isin: instrument.isin,
+    bseCode: instrument.bseCode,
+    score,
+    matchedBy,
+  };
+}
+
+// Fuzzy matches against the master's names and symbols, best first. A code that is really a
+// company name (a common spreadsheet mistake) is compared with names too.
+export function rankCandidates({ code, name }: InstrumentQuery, limit = 5): Candidate[] {
+  const names = [name, code]
+    .filter((v): v is string => !!v && !/^\d+$/.test(v.trim()))
+    .map(normalizeName)
+    .filter(Boolean);
+  const symbol = code?.trim().toUpperCase().replace(/\.(NS|BO)$/, "");
+  if (!names.length && !symbol) return [];
+
+  const scored: Candidate[] = [];
+  for (const instrument of getInstruments()) {
+    const target = normalizeName(instrument.name);
+    let score = symbol && !/^\d+$/.test(symbol) ? similarity(symbol, instrument.symbol) : 0;
+    for (const n of names) {
+      score = Math.max(score, similarity(n, target));
+      if (containsWords(target, n) || containsWords(n, target)) score = Math.max(score, 0.75);
+    }
+    if (score >= MIN_SCORE) scored.push(candidate(instrument, score, "fuzzy"));
+  }
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// A remembered choice wins, then an exact ISIN/symbol/BSE code/name match; otherwise only
+// ranked candidates come back for the user to pick from
+export async function resolveSymbol(query: InstrumentQuery, limit = 5): Promise<Resolution> {
+  const alias = await findAlias(query);
+  if (alias) {
+    const known = findInstrument({ code: alias })?.instrument;
+    return {
+      symbol: alias,
+      matchedBy: "alias",
+      candidates: [known ? candidate(known, 1, "alias") : { symbol: alias, name: alias, score: 1, matchedBy: "alias" }],
+    };
+  }
+
+  const exact = findInstrument(query);
+  if (exact) {
+    return {
+      symbol: exact.instrument.symbol,
+      matchedBy: exact.matchedBy,
+      candidates: [candidate(exact.instrument, 1, exact.matchedBy)],
+    };
+  }
+
+  return { symbol: null, matchedBy: null, candidates: rankCandidates(query, limit) };
+}
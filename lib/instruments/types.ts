@@ -0,0 +1,25 @@
+export type MarketCapBucket = "Large" | "Mid" | "Small";
+
+export interface Instrument {
+  // NSE symbol; BSE-only scrips use their BSE security id
+  symbol: string;
+  bseCode?: string;
+  isin?: string;
+  name: string;
+  sector?: string;
+  industry?: string;
+  marketCap?: MarketCapBucket;
+}
+
+export interface InstrumentQuery {
+  isin?: string;
+  code?: string;
+  name?: string;
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  total: number;
+}
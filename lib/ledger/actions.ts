@@ -0,0 +1,93 @@
+import { parseRatio } from "../import/transactions";
+import { hasUndatedLots } from "./fifo";
+import type { Transaction, TransactionType } from "./types";
+
+type Result<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type CorporateActionType = Extract<TransactionType, "DIVIDEND" | "SPLIT" | "BONUS" | "RIGHTS">;
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ["DIVIDEND", "SPLIT", "BONUS", "RIGHTS"];
+
+export const isCorporateAction = (tx: Transaction): boolean =>
+  (CORPORATE_ACTION_TYPES as TransactionType[]).includes(tx.type);
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+// Checks a dividend, split, bonus or rights issue entered by the user. The ratio may be "1:5" or [1, 5].
+export function readCorporateAction(body: unknown): Result<Transaction> {
+  if (!isObject(body)) return { ok: false, error: "Corporate action must be a JSON object" };
+
+  const type = body.type as CorporateActionType;
+  if (!CORPORATE_ACTION_TYPES.includes(type)) {
+    return { ok: false, error: `type must be one of ${CORPORATE_ACTION_TYPES.join(", ")}` };
+  }
+
+  const code = typeof body.code === "string" ? body.code.trim().toUpperCase() : "";
+  if (!code) return { ok: false, error: "code is required" };
+
+  const date = typeof body.date === "string" ? body.date : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+    return { ok: false, error: "date must be yyyy-mm-dd" };
+  }
+
+  const ratio = Array.isArray(body.ratio)
+    ? parseRatio(body.ratio.join(":"))
+    : typeof body.ratio === "string"
+      ? parseRatio(body.ratio)
+      : undefined;
+  const quantity = isNumber(body.quantity) && body.quantity > 0 ? body.quantity : 0;
+  const price = isNumber(body.price) && body.price >= 0 ? body.price : 0;
+  const amount = isNumber(body.amount) && body.amount > 0 ? body.amount : undefined;
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : undefined;
+
+  switch (type) {
+    case "DIVIDEND":
+      if (!amount && !price) return { ok: false, error: "A dividend needs an amount or a per-share rate" };
+      break;
+    case "SPLIT":
+    case "BONUS":
+      if (!ratio || !ratio[0] || !ratio[1]) return { ok: false, error: `A ${type.toLowerCase()} needs a ratio such as 1:2` };
+      break;
+    case "RIGHTS":
+      if (!isNumber(body.price) || body.price < 0) return { ok: false, error: "A rights issue needs the issue price" };
+      if (!quantity && (!ratio || !ratio[0] || !ratio[1])) {
+        return { ok: false, error: "A rights issue needs the shares subscribed or a ratio such as 1:5" };
+      }
+      break;
+  }
+
+  return {
+    ok: true,
+    value: {
+      date,
+      code,
+      name,
+      type,
+      quantity: type === "SPLIT" || type === "BONUS" ? 0 : quantity,
+      price: type === "SPLIT" || type === "BONUS" ? 0 : price,
+      ratio: type === "DIVIDEND" ? undefined : ratio,
+      amount: type === "DIVIDEND" ? amount : undefined,
+    },
+  };
+}
+
+// The ledger leaves a split or bonus unapplied where the stock has undated lots (see buildLedger),
+// so the app refuses to enter one rather than save an action that does nothing. One dated before
+// the earliest lot would adjust nothing either, and is most likely a wrong date.
+// Returns why the action can't be entered, or null.
+export function adjustmentConflict(action: Transaction, lots: Transaction[]): string | null {
+  if (action.type !== "SPLIT" && action.type !== "BONUS") return null;
+
+  const held = lots.filter((t) => t.code.toUpperCase() === action.code && (t.type === "BUY" || t.type === "RIGHTS"));
+  const kind = action.type.toLowerCase();
+  if (hasUndatedLots(held)) {
+    return `${action.code} has holdings without a purchase date, which can't be ordered against the ${kind}; add purchase dates first`;
+  }
+
+  const earliest = held.map((t) => t.date!).sort()[0];
+  if (earliest && action.date && action.date < earliest) {
+    return `The ${kind} on ${action.date} is before the earliest ${action.code} lot (${earliest}), so it would adjust nothing`;
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+import type { DividendPayment, LedgerProblem, Lot, Position, RealizedGain, Transaction } from "./types";
+
+export interface LedgerResult {
+  positions: Position[];
+  realized: RealizedGain[];
+  dividends: DividendPayment[];
+  problems: LedgerProblem[];
+}
+
+interface Book {
+  code: string;
+  name: string;
+  lots: Lot[];
+  realizedGainLoss: number;
+  dividends: number;
+}
+
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+
+const heldQuantity = (book: Book) => book.lots.reduce((sum, l) => sum + l.quantity, 0);
+
+// Undated opening balances sort before everything else; same-day entries keep sheet order
+function chronological(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+}
+
+function sell(book: Book, tx: Transaction, realized: RealizedGain[], problems: LedgerProblem[]) {
+  let remaining = tx.quantity;
+
+  while (remaining > 0 && book.lots.length) {
+    const lot = book.lots[0];
+    const quantity = Math.min(lot.quantity, remaining);
+    const gain = round((tx.price - lot.cost) * quantity);
+
+    realized.push({
+      code: book.code,
+      name: book.name,
+      buyDate: lot.date,
+      sellDate: tx.date ?? "",
+      quantity,
+      buyPrice: lot.cost,
+      sellPrice: tx.price,
+      gain,
+    });
+    book.realizedGainLoss = round(book.realizedGainLoss + gain);
+
+    lot.quantity = round(lot.quantity - quantity);
+    remaining = round(remaining - quantity);
+    if (lot.quantity <= 0) book.lots.shift();
+  }
+
+  if (remaining > 0) {
+    problems.push({
+      transaction: tx,
+      reason: "oversold",
+      message: `Sold ${remaining} more ${book.code} shares than were held`,
+    });
+  }
+}
+
+// Replay is chronological, but an undated lot (a holdings-sheet row without a purchase date) can't
+// be placed before or after a split or bonus. Such quantities usually count it already, so the
+// action is left unapplied and reported rather than guessed at.
+export const hasUndatedLots = (lots: { date?: string }[]) => lots.some((l) => !l.date);
+
+function undatedLots(book: Book, tx: Transaction, problems: LedgerProblem[]): boolean {
+  if (!hasUndatedLots(book.lots)) return false;
+  problems.push({
+    transaction: tx,
+    reason: "undated-lots",
+    message: `${book.code} has holdings without a purchase date, which can't be ordered against the ${tx.type.toLowerCase()} on ${tx.date}; add purchase dates to apply it`,
+  });
+  return true;
+}
+
+function split(book: Book, tx: Transaction, problems: LedgerProblem[]) {
+  const [from, to] = tx.ratio ?? [0, 0];
+  if (!from || !to) {
+    problems.push({ transaction: tx, reason: "missing-ratio", message: "Split needs a ratio such as 1:5" });
+    return;
+  }
+  if (undatedLots(book, tx, problems)) return;
+
+  const factor = to / from;
+  for (const lot of book.lots) {
+    lot.quantity = round(lot.quantity * factor);
+    lot.cost = round(lot.cost / factor);
+  }
+}
+
+// Bonus shares are a new zero-cost lot acquired on the allotment date, as the Income Tax Act treats them
+function bonus(book: Book, tx: Transaction, problems: LedgerProblem[]) {
+  const [bonusShares, held] = tx.ratio ?? [0, 0];
+  if (!bonusShares || !held) {
+    problems.push({ transaction: tx, reason: "missing-ratio", message: "Bonus needs a ratio such as 1:1" });
+    return;
+  }
+  if (undatedLots(book, tx, problems)) return;
+
+  const quantity = Math.floor((heldQuantity(book) * bonusShares) / held);
+  if (quantity > 0) book.lots.push({ date: tx.date, quantity, cost: 0 });
+}
+
+// Subscribed rights shares are a new lot at the issue price, dated on allotment
+function rights(book: Book, tx: Transaction, problems: LedgerProblem[]) {
+  const [offered, held] = tx.ratio ?? [0, 0];
+  if (!tx.quantity && (!offered || !held)) {
+    problems.push({
+      transaction: tx,
+      reason: "missing-ratio",
+      message: "Rights issue needs the shares subscribed or a ratio such as 1:5",
+    });
+    return;
+  }
+
+  const quantity = tx.quantity || Math.floor((heldQuantity(book) * offered) / held);
+  if (quantity > 0) book.lots.push({ date: tx.date, quantity, cost: tx.price });
+}
+
+function dividend(book: Book, tx: Transaction, dividends: DividendPayment[]) {
+  const amount = round(tx.amount ?? tx.price * (tx.quantity || heldQuantity(book)));
+  book.dividends = round(book.dividends + amount);
+  dividends.push({ code: book.code, name: book.name, date: tx.date, amount });
+}
+
+export function buildLedger(transactions: Transaction[]): LedgerResult {
+  const books = new Map<string, Book>();
+  const realized: RealizedGain[] = [];
+  const dividends: DividendPayment[] = [];
+  const problems: LedgerProblem[] = [];
+
+  for (const tx of chronological(transactions)) {
+    let book = books.get(tx.code);
+    if (!book) {
+      book = { code: tx.code, name: tx.name || tx.code, lots: [], realizedGainLoss: 0, dividends: 0 };
+      books.set(tx.code, book);
+    }
+    if (tx.name && book.name === book.code) book.name = tx.name;
+
+    switch (tx.type) {
+      case "BUY":
+        book.lots.push({ date: tx.date, quantity: tx.quantity, cost: tx.price });
+        break;
+      case "SELL":
+        sell(book, tx, realized, problems);
+        break;
+      case "SPLIT":
+        split(book, tx, problems);
+        break;
+      case "BONUS":
+        bonus(book, tx, problems);
+        break;
+      case "RIGHTS":
+        rights(book, tx, problems);
+        break;
+      case "DIVIDEND":
+        dividend(book, tx, dividends);
+        break;
+    }
+  }
+
+  const positions = Array.from(books.values()).map((book): Position => {
+    const quantity = heldQuantity(book);
+    const invested = round(book.lots.reduce((sum, l) => sum + l.quantity * l.cost, 0));
+    return {
+      code: book.code,
+      name: book.name,
+      lots: book.lots,
+      quantity,
+      averageCost: quantity ? round(invested / quantity) : 0,
+      invested,
+      realizedGainLoss: book.realizedGainLoss,
+      dividends: book.dividends,
+    };
+  });
+
+  return { positions, realized, dividends, problems };
+}
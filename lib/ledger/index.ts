@@ -0,0 +1,120 @@
+import { issue, type ImportIssue } from "../import/issues";
+import type { StockData } from "../types";
+import { buildLedger } from "./fifo";
+import type { DividendPayment, LedgerProblem, Position, RealizedGain, Transaction } from "./types";
+
+export { buildLedger, type LedgerResult } from "./fifo";
+export {
+  adjustmentConflict,
+  CORPORATE_ACTION_TYPES,
+  isCorporateAction,
+  readCorporateAction,
+  type CorporateActionType,
+} from "./actions";
+export type {
+  DividendPayment,
+  LedgerProblem,
+  Lot,
+  Position,
+  RealizedGain,
+  Transaction,
+  TransactionType,
+} from "./types";
+
+export interface AppliedLedger {
+  stocks: StockData[];
+  realized: RealizedGain[];
+  dividends: DividendPayment[];
+  problems: LedgerProblem[];
+}
+
+// A holdings row is a single undated (or purchase-dated) BUY of its whole quantity
+export function openingBalances(stocks: StockData[]): Transaction[] {
+  return stocks.map((s) => ({
+    date: s.purchaseDate,
+    code: s.code,
+    name: s.name,
+    type: "BUY",
+    quantity: s.quantity,
+    price: s.purchasePrice,
+    opening: true,
+  }));
+}
+
+function emptyStock(code: string, name: string): StockData {
+  return {
+    name,
+    code,
+    purchasePrice: 0,
+    quantity: 0,
+    investment: 0,
+    portfolioPercent: "",
+    cmp: 0,
+    presentValue: 0,
+    gainLoss: 0,
+    gainLossPercent: "",
+    marketCap: "",
+    peRatio: "",
+  };
+}
+
+function fromPosition(base: StockData, position: Position): StockData {
+  return {
+    ...base,
+    quantity: position.quantity,
+    purchasePrice: position.averageCost,
+    investment: position.invested,
+    lots: position.lots,
+    realizedGainLoss: position.realizedGainLoss,
+    dividends: position.dividends,
+  };
+}
+
+// Holdings rows act as opening balances; codes touched by the ledger get quantity, average
+// cost and investment re-derived by FIFO, the rest keep the figures from the sheet
+export function applyLedger(stocks: StockData[], transactions: Transaction[]): AppliedLedger {
+  const { positions, realized, dividends, problems } = buildLedger([...openingBalances(stocks), ...transactions]);
+  const traded = new Set(transactions.map((t) => t.code));
+  const positionsByCode = new Map(positions.map((p) => [p.code, p]));
+
+  const result: StockData[] = [];
+  const placed = new Set<string>();
+
+  for (const s of stocks) {
+    if (!traded.has(s.code)) {
+      result.push({
+        ...s,
+        lots: [{ date: s.purchaseDate, quantity: s.quantity, cost: s.purchasePrice }],
+        realizedGainLoss: 0,
+        dividends: 0,
+      });
+      continue;
+    }
+
+    const position = positionsByCode.get(s.code);
+    if (placed.has(s.code) || !position || position.quantity <= 0) continue;
+    placed.add(s.code);
+    result.push(fromPosition(s, position));
+  }
+
+  // stocks bought entirely through the ledger have no holdings row to start from
+  for (const position of positions) {
+    if (!traded.has(position.code) || placed.has(position.code) || position.quantity <= 0) continue;
+    result.push(fromPosition(emptyStock(position.code, position.name), position));
+  }
+
+  return { stocks: result, realized, dividends, problems };
+}
+
+export function problemIssues(problems: LedgerProblem[]): ImportIssue[] {
+  return problems.map(({ transaction: tx, reason, message }) =>
+    issue(
+      tx.source?.row ?? 0,
+      "warning",
+      reason,
+      { date: tx.date ?? null, code: tx.code, type: tx.type, quantity: tx.quantity, price: tx.price },
+      message,
+      tx.source?.sheet
+    )
+  );
+}
@@ -0,0 +1,58 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { parseExcelData } from "../import";
+import { adjustmentConflict, applyLedger, openingBalances, problemIssues } from "./index";
+
+// A holdings sheet plus a transactions sheet, as a broker export or a hand-kept workbook has them
+function workbook(purchaseDate: string | null, action: (string | number)[]): Buffer {
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    book,
+    XLSX.utils.aoa_to_sheet([
+      ["Name", "Code", "Avg Price", "Quantity", "Purchase Date"],
+      ["Infosys", "INFY", 1400, 20, purchaseDate ?? ""],
+    ]),
+    "Holdings"
+  );
+  XLSX.utils.book_append_sheet(
+    book,
+    XLSX.utils.aoa_to_sheet([["Date", "Code", "Type", "Quantity", "Price", "Ratio"], action]),
+    "Transactions"
+  );
+  return XLSX.write(book, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("splits and bonuses against undated holdings", () => {
+  it("leaves an imported split unapplied and reports it", () => {
+    const parsed = parseExcelData(workbook(null, ["2024-06-03", "INFY", "SPLIT", "", "", "1:2"]));
+    expect(parsed.transactions).toHaveLength(1);
+
+    const { stocks, problems } = applyLedger(parsed.stocks, parsed.transactions);
+    expect(stocks[0]).toMatchObject({ code: "INFY", quantity: 20, purchasePrice: 1400 });
+    expect(problems.map((p) => p.reason)).toEqual(["undated-lots"]);
+    expect(problemIssues(problems)[0]).toMatchObject({ severity: "warning", reason: "undated-lots" });
+  });
+
+  it("leaves an imported bonus unapplied and reports it", () => {
+    const parsed = parseExcelData(workbook(null, ["2024-06-03", "INFY", "BONUS", "", "", "1:1"]));
+    const { stocks, problems } = applyLedger(parsed.stocks, parsed.transactions);
+    expect(stocks[0].quantity).toBe(20);
+    expect(problems.map((p) => p.reason)).toEqual(["undated-lots"]);
+  });
+
+  it("applies an imported split to holdings bought before it", () => {
+    const parsed = parseExcelData(workbook("2024-01-02", ["2024-06-03", "INFY", "SPLIT", "", "", "1:2"]));
+    const { stocks, problems } = applyLedger(parsed.stocks, parsed.transactions);
+    expect(stocks[0]).toMatchObject({ quantity: 40, purchasePrice: 700 });
+    expect(problems).toEqual([]);
+  });
+
+  it("refuses the same action entered in the app", () => {
+    const parsed = parseExcelData(workbook(null, ["2024-06-03", "INFY", "SPLIT", "", "", "1:2"]));
+    const action = parsed.transactions[0];
+    expect(adjustmentConflict(action, openingBalances(parsed.stocks))).toMatch(/without a purchase date/);
+
+    const dated = parseExcelData(workbook("2024-01-02", ["2024-06-03", "INFY", "SPLIT", "", "", "1:2"]));
+    expect(adjustmentConflict(action, openingBalances(dated.stocks))).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+export type TransactionType = "BUY" | "SELL" | "SPLIT" | "BONUS" | "DIVIDEND" | "RIGHTS";
+
+export interface Transaction {
+  // set on corporate actions entered in the app, so they can be removed again
+  id?: string;
+  // ISO yyyy-mm-dd; opening balances carried over from a holdings sheet may have no date
+  date?: string;
+  code: string;
+  name?: string;
+  type: TransactionType;
+  // shares bought/sold or rights shares subscribed; ignored for SPLIT/BONUS
+  quantity: number;
+  // per-share price for BUY/SELL, issue price for RIGHTS, per-share dividend for DIVIDEND
+  price: number;
+  // SPLIT "1:5" (1 old share becomes 5), BONUS "1:2" (1 bonus share per 2 held) or RIGHTS "1:5"
+  // (1 share offered per 5 held, taken up in full when no quantity is given), stored as [a, b]
+  ratio?: [number, number];
+  // total dividend received, when the sheet gives an amount rather than a per-share rate
+  amount?: number;
+  opening?: boolean;
+  // where the transaction came from, for error reporting
+  source?: { sheet: string; row: number };
+}
+
+export interface Lot {
+  date?: string;
+  quantity: number;
+  // per-share cost after split/bonus adjustments
+  cost: number;
+}
+
+export interface RealizedGain {
+  code: string;
+  name: string;
+  buyDate?: string;
+  sellDate: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  gain: number;
+}
+
+export interface DividendPayment {
+  code: string;
+  name: string;
+  date?: string;
+  amount: number;
+}
+
+export interface Position {
+  code: string;
+  name: string;
+  lots: Lot[];
+  quantity: number;
+  averageCost: number;
+  invested: number;
+  realizedGainLoss: number;
+  dividends: number;
+}
+
+export interface LedgerProblem {
+  transaction: Transaction;
+  reason: "oversold" | "missing-ratio" | "undated-lots";
+  message: string;
+}
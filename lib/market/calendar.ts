@@ -0,0 +1,135 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { envNumber } from "../env";
+
+// NSE/BSE regular session in IST, which has no daylight saving
+const IST_OFFSET_MINUTES = 5 * 60 + 30;
+export const SESSION = { open: "09:15", close: "15:30" };
+
+const HOLIDAYS_FILE = path.resolve(process.cwd(), process.env.MARKET_HOLIDAYS_FILE || "data/market-holidays.json");
+
+// During the session, a price last traded longer ago than this is stale
+const STALE_AFTER_MS = envNumber("QUOTE_STALE_AFTER_MS", 15 * 60_000);
+
+// Snapshots and alert checks are skipped on weekends and holidays unless SKIP_NON_TRADING_DAYS=false
+export const SKIP_NON_TRADING_DAYS = process.env.SKIP_NON_TRADING_DAYS !== "false";
+
+export type Exchange = "NSE" | "BSE";
+
+export interface Holiday {
+  date: string;
+  name: string;
+  // both when left out
+  exchanges?: Exchange[];
+}
+
+export interface IstTime {
+  // yyyy-mm-dd
+  date: string;
+  // HH:MM
+  time: string;
+  // 0 Sunday … 6 Saturday
+  weekday: number;
+}
+
+export interface MarketStatus {
+  exchange: Exchange;
+  open: boolean;
+  // today in IST
+  date: string;
+  tradingDay: boolean;
+  holiday?: string;
+  // the session today's prices belong to: today once it has opened, otherwise the last trading day
+  sessionDate: string;
+  nextOpen: string;
+}
+
+// intraday: traded in today's open session; last-close: the latest session's closing price while the
+// market is shut; stale: anything older
+export type QuoteSession = "intraday" | "last-close" | "stale";
+
+let holidays: Holiday[] | null = null;
+
+// Loaded synchronously on first use; a missing file leaves only weekends closed
+export function getHolidays(): Holiday[] {
+  if (!holidays) {
+    try {
+      holidays = (JSON.parse(readFileSync(HOLIDAYS_FILE, "utf8")) as { holidays: Holiday[] }).holidays;
+    } catch (err) {
+      console.error(`Failed to read market holidays ${HOLIDAYS_FILE}:`, err);
+      holidays = [];
+    }
+  }
+  return holidays;
+}
+
+export function findHoliday(date: string, exchange: Exchange = "NSE"): Holiday | undefined {
+  return getHolidays().find((h) => h.date === date && (!h.exchanges || h.exchanges.includes(exchange)));
+}
+
+export function istTime(at: Date = new Date()): IstTime {
+  const shifted = new Date(at.getTime() + IST_OFFSET_MINUTES * 60_000);
+  const iso = shifted.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16), weekday: shifted.getUTCDay() };
+}
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function isTradingDay(date: string, exchange: Exchange = "NSE"): boolean {
+  const weekday = weekdayOf(date);
+  return weekday >= 1 && weekday <= 5 && !findHoliday(date, exchange);
+}
+
+// Nearest trading day strictly before/after `date`; the holiday list never closes a month straight
+function stepTradingDay(date: string, step: 1 | -1, exchange: Exchange): string {
+  let day = addDays(date, step);
+  for (let i = 0; i < 31 && !isTradingDay(day, exchange); i++) day = addDays(day, step);
+  return day;
+}
+
+export function previousTradingDay(date: string, exchange: Exchange = "NSE"): string {
+  return stepTradingDay(date, -1, exchange);
+}
+
+export function nextTradingDay(date: string, exchange: Exchange = "NSE"): string {
+  return stepTradingDay(date, 1, exchange);
+}
+
+export function isMarketOpen(at: Date = new Date(), exchange: Exchange = "NSE"): boolean {
+  const { date, time } = istTime(at);
+  return isTradingDay(date, exchange) && time >= SESSION.open && time < SESSION.close;
+}
+
+export function marketStatus(at: Date = new Date(), exchange: Exchange = "NSE"): MarketStatus {
+  const { date, time } = istTime(at);
+  const tradingDay = isTradingDay(date, exchange);
+  const openDate = tradingDay && time < SESSION.open ? date : nextTradingDay(date, exchange);
+
+  return {
+    exchange,
+    open: isMarketOpen(at, exchange),
+    date,
+    tradingDay,
+    holiday: findHoliday(date, exchange)?.name,
+    sessionDate: tradingDay && time >= SESSION.open ? date : previousTradingDay(date, exchange),
+    nextOpen: `${openDate}T${SESSION.open}:00+05:30`,
+  };
+}
+
+// `quotedAt` is when the price last traded, or failing that when it was fetched
+export function classifyQuote(quotedAt: Date, at: Date = new Date(), exchange: Exchange = "NSE"): QuoteSession {
+  const status = marketStatus(at, exchange);
+  const quotedDate = istTime(quotedAt).date;
+  if (status.open) {
+    return quotedDate === status.date && at.getTime() - quotedAt.getTime() <= STALE_AFTER_MS
+      ? "intraday"
+      : "stale";
+  }
+  return quotedDate >= status.sessionDate ? "last-close" : "stale";
+}
@@ -0,0 +1,18 @@
+export {
+  classifyQuote,
+  findHoliday,
+  getHolidays,
+  isMarketOpen,
+  isTradingDay,
+  istTime,
+  marketStatus,
+  nextTradingDay,
+  previousTradingDay,
+  SESSION,
+  SKIP_NON_TRADING_DAYS,
+  type Exchange,
+  type Holiday,
+  type IstTime,
+  type MarketStatus,
+  type QuoteSession,
+} from "./calendar";
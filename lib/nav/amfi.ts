@@ -0,0 +1,84 @@
+export interface NavRecord {
+  // AMFI scheme code, e.g. "119551"
+  schemeCode: string;
+  // growth / payout ISIN and reinvestment ISIN; either may be missing
+  isins: string[];
+  name: string;
+  nav: number;
+  // ISO yyyy-mm-dd of the NAV
+  date: string;
+  // SEBI category from the section heading, e.g. "Equity Scheme - Large Cap Fund"
+  category?: string;
+  fundHouse?: string;
+}
+
+const MONTHS: Record<string, string> = {
+  jan: "01", feb: "02", mar: "03", apr: "04", may: "05", jun: "06",
+  jul: "07", aug: "08", sep: "09", oct: "10", nov: "11", dec: "12",
+};
+
+// "17-Oct-2026" -> "2026-10-17"
+function parseNavDate(value: string): string | null {
+  const m = value.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/);
+  const month = m && MONTHS[m[2].toLowerCase()];
+  return m && month ? `${m[3]}-${month}-${m[1].padStart(2, "0")}` : null;
+}
+
+const isIsin = (s: string) => /^IN[A-Z0-9]{10}$/.test(s);
+
+// Parses AMFI's NAVAll.txt: semicolon-separated scheme rows under "Open Ended Schemes(<category>)"
+// headings and fund-house name lines. Rows whose NAV is "N.A." or malformed are dropped.
+export function parseAmfiNav(text: string): NavRecord[] {
+  const records: NavRecord[] = [];
+  let category: string | undefined;
+  let fundHouse: string | undefined;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (!line.includes(";")) {
+      const heading = line.match(/^[\w\s-]*Schemes?\s*\((.+)\)$/i);
+      if (heading) {
+        category = heading[1].trim();
+        fundHouse = undefined;
+      } else {
+        fundHouse = line;
+      }
+      continue;
+    }
+
+    const [schemeCode, isinGrowth, isinReinvest, name, nav, date] = line.split(";").map((f) => f.trim());
+    // the column header row repeats "Scheme Code"
+    if (!/^\d+$/.test(schemeCode ?? "")) continue;
+
+    const value = Number(nav);
+    const navDate = parseNavDate(date ?? "");
+    if (!name || !Number.isFinite(value) || value <= 0 || !navDate) continue;
+
+    records.push({
+      schemeCode,
+      isins: [isinGrowth, isinReinvest].filter((i): i is string => !!i && isIsin(i)),
+      name,
+      nav: value,
+      date: navDate,
+      category,
+      fundHouse,
+    });
+  }
+
+  return records;
+}
+
+// "Equity Scheme - Large Cap Fund" -> "Large Cap Fund"; used as the holding's sector
+export function categoryLabel(category: string | undefined): string | undefined {
+  if (!category) return undefined;
+  const parts = category.split(/\s+-\s+/);
+  return (parts.length > 1 ? parts.slice(1).join(" - ") : category).trim() || undefined;
+}
+
+// "Equity Scheme - ...", "Debt Scheme - ...", "Hybrid Scheme - ..." -> "Equity", "Debt", "Hybrid"
+export function categoryClass(category: string | undefined): string | undefined {
+  const m = category?.match(/^(Equity|Debt|Hybrid|Solution Oriented|Other)\b/i);
+  return m ? m[1][0].toUpperCase() + m[1].slice(1).toLowerCase() : undefined;
+}
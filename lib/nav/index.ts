@@ -0,0 +1,9 @@
+export { categoryClass, categoryLabel, parseAmfiNav, type NavRecord } from "./amfi";
+export {
+  classifyNav,
+  clearNavCache,
+  fetchNavPrices,
+  findScheme,
+  getNavIndex,
+  type SchemeQuery,
+} from "./store";
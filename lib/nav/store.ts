@@ -0,0 +1,121 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { envNumber } from "../env";
+import { normalizeName } from "../instruments";
+import { previousTradingDay, istTime, type QuoteSession } from "../market";
+import type { PriceResult } from "../quotes";
+import { parseAmfiNav, type NavRecord } from "./amfi";
+
+// A local copy of NAVAll.txt wins over the URL, which may point at AMFI or a stand-in server
+const NAV_FILE = process.env.AMFI_NAV_FILE;
+const NAV_URL = process.env.AMFI_NAV_URL || "https://www.amfiindia.com/spages/NAVAll.txt";
+// AMFI publishes once a night, so there is no point asking more often
+const NAV_TTL_MS = envNumber("AMFI_NAV_TTL_MS", 60 * 60_000);
+const NAV_TIMEOUT_MS = envNumber("AMFI_NAV_TIMEOUT_MS", 15_000);
+
+interface NavIndex {
+  loadedAt: number;
+  records: NavRecord[];
+  byCode: Map<string, NavRecord>;
+  byIsin: Map<string, NavRecord>;
+  byName: Map<string, NavRecord>;
+}
+
+export interface SchemeQuery {
+  isin?: string;
+  code?: string;
+  name?: string;
+}
+
+let index: NavIndex | null = null;
+let loading: Promise<NavIndex> | null = null;
+
+async function readSource(): Promise<string> {
+  if (NAV_FILE) return readFile(path.resolve(process.cwd(), NAV_FILE), "utf8");
+
+  const res = await fetch(NAV_URL, { signal: AbortSignal.timeout(NAV_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`AMFI NAV file responded ${res.status}`);
+  return res.text();
+}
+
+function buildIndex(records: NavRecord[]): NavIndex {
+  const built: NavIndex = { loadedAt: Date.now(), records, byCode: new Map(), byIsin: new Map(), byName: new Map() };
+  for (const r of records) {
+    built.byCode.set(r.schemeCode, r);
+    for (const isin of r.isins) built.byIsin.set(isin, r);
+    const name = normalizeName(r.name);
+    if (name && !built.byName.has(name)) built.byName.set(name, r);
+  }
+  return built;
+}
+
+// Loads on first use and again once NAV_TTL_MS has passed. A failed reload keeps serving the
+// previous NAVs; a failed first load leaves funds unpriced until the next call.
+export async function getNavIndex(): Promise<NavIndex | null> {
+  if (index && Date.now() - index.loadedAt <= NAV_TTL_MS) return index;
+
+  loading ??= readSource()
+    .then((text) => (index = buildIndex(parseAmfiNav(text))))
+    .finally(() => (loading = null));
+  try {
+    return await loading;
+  } catch (err) {
+    console.error(`Failed to load AMFI NAVs from ${NAV_FILE ?? NAV_URL}:`, err);
+    return index;
+  }
+}
+
+// Scheme code, then ISIN (the code column often holds one), then the scheme name
+export async function findScheme({ isin, code, name }: SchemeQuery): Promise<NavRecord | undefined> {
+  const navs = await getNavIndex();
+  if (!navs) return undefined;
+
+  const c = code?.trim().toUpperCase();
+  return (
+    (c ? navs.byCode.get(c) : undefined) ??
+    (isin ? navs.byIsin.get(isin.trim().toUpperCase()) : undefined) ??
+    (c ? navs.byIsin.get(c) : undefined) ??
+    (name ? navs.byName.get(normalizeName(name)) : undefined)
+  );
+}
+
+// A NAV is struck after the close and published that night, so the previous session's NAV is as
+// current as it gets until then
+export function classifyNav(date: string, at: Date = new Date()): QuoteSession {
+  return date >= previousTradingDay(istTime(at).date) ? "last-close" : "stale";
+}
+
+// Latest NAV per scheme code, in the shape fetchStockPrices gives for listed codes. The NAV is
+// stamped at the session close of its date.
+export async function fetchNavPrices(schemeCodes: string[]): Promise<Map<string, PriceResult>> {
+  const results = new Map<string, PriceResult>();
+  if (!schemeCodes.length) return results;
+
+  const navs = await getNavIndex();
+  for (const code of new Set(schemeCodes)) {
+    const record = navs?.byCode.get(code);
+    results.set(
+      code,
+      record && navs
+        ? {
+            ok: true,
+            quote: {
+              symbol: code,
+              price: record.nav,
+              provider: "amfi",
+              marketTime: new Date(`${record.date}T15:30:00+05:30`).toISOString(),
+              cache: "hit",
+              ageMs: Date.now() - navs.loadedAt,
+            },
+          }
+        : navs
+          ? { ok: false, reason: "not-found", message: `AMFI has no NAV for scheme ${code}` }
+          : { ok: false, reason: "network", message: "AMFI NAVs could not be loaded" }
+    );
+  }
+  return results;
+}
+
+export function clearNavCache() {
+  index = null;
+}
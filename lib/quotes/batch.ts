@@ -0,0 +1,48 @@
+import type { CachedQuote } from "./cache";
+import { envNumber } from "../env";
+import { fetchStockPrice, toQuoteError, type FetchOptions } from "./chain";
+import type { QuoteFailureReason } from "./types";
+
+export interface BatchOptions extends FetchOptions {
+  concurrency?: number;
+}
+
+export type PriceResult =
+  | { ok: true; quote: CachedQuote }
+  | { ok: false; reason: QuoteFailureReason; status?: number; message: string };
+
+export const DEFAULT_CONCURRENCY = envNumber("QUOTE_CONCURRENCY", 6);
+
+// Runs `run` over each distinct item, never more than `concurrency` at a time
+export async function mapConcurrent<R>(
+  items: string[],
+  concurrency: number,
+  run: (item: string) => Promise<R>
+): Promise<Map<string, R>> {
+  const queue = Array.from(new Set(items));
+  const results = new Map<string, R>();
+
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      results.set(item, await run(item));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+  return results;
+}
+
+// Prices each distinct code once, never running more than `concurrency` lookups at a time
+export function fetchStockPrices(
+  codes: string[],
+  { concurrency = DEFAULT_CONCURRENCY, ...options }: BatchOptions = {}
+): Promise<Map<string, PriceResult>> {
+  return mapConcurrent(codes, concurrency, async (code): Promise<PriceResult> => {
+    try {
+      return { ok: true, quote: await fetchStockPrice(code, options) };
+    } catch (err) {
+      const error = toQuoteError(err);
+      return { ok: false, reason: error.reason, status: error.status, message: error.message };
+    }
+  });
+}
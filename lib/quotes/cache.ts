@@ -0,0 +1,69 @@
+import { LRUCache } from "lru-cache";
+import { envNumber } from "../env";
+import type { Quote } from "./types";
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+export type CachedQuote = Quote & {
+  cache: CacheStatus;
+  ageMs: number;
+};
+
+interface Entry {
+  quote: Quote;
+  fetchedAt: number;
+}
+
+// Fresh for TTL, then served stale (while a background refresh runs) for STALE more ms
+const TTL_MS = envNumber("QUOTE_CACHE_TTL_MS", 60_000);
+const STALE_MS = envNumber("QUOTE_CACHE_STALE_MS", 5 * 60_000);
+
+const cache = new LRUCache<string, Entry>({
+  max: envNumber("QUOTE_CACHE_MAX", 2000) || 1,
+  ttl: TTL_MS + STALE_MS || 1,
+});
+
+const inflight = new Map<string, Promise<Quote>>();
+
+function revalidate(key: string, symbol: string, load: (symbol: string) => Promise<Quote>) {
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load(symbol)
+      .then((quote) => {
+        cache.set(key, { quote, fetchedAt: Date.now() });
+        return quote;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return pending;
+}
+
+// Concurrent callers for the same symbol and provider chain share one load; a failed load rejects
+// for all of them. `chain` identifies the providers behind `load`, so one chain is never served
+// another's quote (a fixture price to a live chain).
+export async function getCachedQuote(
+  symbol: string,
+  load: (symbol: string) => Promise<Quote>,
+  chain = ""
+): Promise<CachedQuote> {
+  const key = `${chain}|${symbol}`;
+  const entry = cache.get(key);
+
+  if (entry) {
+    const ageMs = Date.now() - entry.fetchedAt;
+    if (ageMs <= TTL_MS) return { ...entry.quote, cache: "hit", ageMs };
+
+    revalidate(key, symbol, load).catch((err) => {
+      console.error(`Quote refresh failed for ${symbol}:`, err);
+    });
+    return { ...entry.quote, cache: "stale", ageMs };
+  }
+
+  const quote = await revalidate(key, symbol, load);
+  return { ...quote, cache: "miss", ageMs: 0 };
+}
+
+export function clearQuoteCache() {
+  cache.clear();
+}
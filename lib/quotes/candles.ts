@@ -0,0 +1,72 @@
+import type { Candle, HistoryInterval, HistoryRange } from "./types";
+
+export const HISTORY_RANGES: HistoryRange[] = ["1mo", "3mo", "6mo", "1y", "2y", "5y", "max"];
+export const HISTORY_INTERVALS: HistoryInterval[] = ["1d", "1wk", "1mo"];
+
+const RANGE_MONTHS: Record<Exclude<HistoryRange, "max">, number> = {
+  "1mo": 1,
+  "3mo": 3,
+  "6mo": 6,
+  "1y": 12,
+  "2y": 24,
+  "5y": 60,
+};
+
+// Exchange timestamps are converted to the Indian session date they belong to
+export function sessionDate(epochSeconds: number): string {
+  return new Date(epochSeconds * 1000).toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+// First date (inclusive) covered by a range ending on `end`; null for "max"
+export function rangeStart(range: HistoryRange, end: string): string | null {
+  if (range === "max") return null;
+  const start = new Date(`${end}T00:00:00Z`);
+  start.setUTCMonth(start.getUTCMonth() - RANGE_MONTHS[range]);
+  return start.toISOString().slice(0, 10);
+}
+
+function bucketOf(date: string, interval: HistoryInterval): string {
+  if (interval === "1mo") return date.slice(0, 7);
+  if (interval === "1d") return date;
+  // weeks start on Monday
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+// Merges daily candles into weekly or monthly bars
+export function resample(candles: Candle[], interval: HistoryInterval): Candle[] {
+  if (interval === "1d") return candles;
+
+  const bars: Candle[] = [];
+  let bucket = "";
+  for (const c of candles) {
+    const key = bucketOf(c.date, interval);
+    const last = bars[bars.length - 1];
+    if (last && key === bucket) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      last.volume += c.volume;
+    } else {
+      bucket = key;
+      bars.push({ ...c });
+    }
+  }
+  return bars;
+}
+
+// Smallest range whose window reaches back to `from`
+export function rangeCovering(from: string, end: string): HistoryRange {
+  return HISTORY_RANGES.find((r) => r === "max" || rangeStart(r, end)! <= from) ?? "max";
+}
+
+// Close of the last bar on or before `date`; the first bar when the date predates them all
+export function closeOn(candles: Candle[], date: string): number | null {
+  let close: number | null = candles[0]?.close ?? null;
+  for (const c of candles) {
+    if (c.date > date) break;
+    close = c.close;
+  }
+  return close;
+}
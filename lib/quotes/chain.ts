@@ -0,0 +1,116 @@
+import { envNumber } from "../env";
+import { getCachedQuote, type CachedQuote } from "./cache";
+import { createProvider } from "./providers";
+import { withRetry, type RetryOptions } from "./retry";
+import { QuoteError, type Quote, type QuoteProvider } from "./types";
+
+const DEFAULT_PROVIDERS = "yahoo-chart";
+
+let chain: QuoteProvider[] | null = null;
+
+// Ordered fallback chain, configured per deployment with QUOTE_PROVIDERS=yahoo-chart,yahoo-finance2,fixture
+export function getProviderChain(): QuoteProvider[] {
+  if (!chain) {
+    const names = (process.env.QUOTE_PROVIDERS || DEFAULT_PROVIDERS)
+      .split(",")
+      .map((n) => n.trim())
+      .filter(Boolean);
+    chain = names.map(createProvider);
+  }
+  return chain;
+}
+
+const providerIds = new WeakMap<QuoteProvider, number>();
+let nextProviderId = 0;
+
+// Identifies a chain by its provider instances, for cache keys: the configured chain is built once
+// and keeps its key, while a caller's own providers never share cached results with it
+export function chainKey(providers: QuoteProvider[]): string {
+  return providers
+    .map((p) => {
+      let id = providerIds.get(p);
+      if (id === undefined) {
+        id = nextProviderId++;
+        providerIds.set(p, id);
+      }
+      return `${p.name}#${id}`;
+    })
+    .join(",");
+}
+
+export function isValidPrice(p: number | null | undefined): p is number {
+  return typeof p === "number" && p > 0 && p < 100000;
+}
+
+// Numeric codes are BSE scrip codes that may also be listed on NSE; everything else is an NSE symbol
+export function exchangeSymbols(code: string): string[] {
+  return /^\d+$/.test(code) ? [`${code}.NS`, `${code}.BO`] : [`${code}.NS`];
+}
+
+export interface FetchOptions extends Partial<RetryOptions> {
+  providers?: QuoteProvider[];
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  timeoutMs: envNumber("QUOTE_TIMEOUT_MS", 8000),
+  retries: envNumber("QUOTE_RETRIES", 2),
+  backoffMs: envNumber("QUOTE_BACKOFF_MS", 500),
+};
+
+export function toQuoteError(err: unknown): QuoteError {
+  if (err instanceof QuoteError) return err;
+  return new QuoteError("network", err instanceof Error ? err.message : String(err));
+}
+
+// "not-found" is the least informative failure, so any other reason wins when reporting
+export function worse(current: QuoteError | null, next: QuoteError): QuoteError {
+  return !current || current.reason === "not-found" ? next : current;
+}
+
+async function fetchFromChain(
+  symbol: string,
+  providers: QuoteProvider[],
+  retry: RetryOptions
+): Promise<Quote> {
+  let failure: QuoteError | null = null;
+
+  for (const provider of providers) {
+    try {
+      const quote = await withRetry((signal) => provider.getQuote(symbol, { signal }), retry);
+      if (!quote) {
+        failure = worse(failure, new QuoteError("not-found", `${provider.name} has no quote for ${symbol}`));
+      } else if (!isValidPrice(quote.price)) {
+        failure = worse(
+          failure,
+          new QuoteError("invalid-price", `${provider.name} returned ${quote.price} for ${symbol}`)
+        );
+      } else {
+        return quote;
+      }
+    } catch (err) {
+      failure = worse(failure, toQuoteError(err));
+    }
+  }
+
+  throw failure ?? new QuoteError("not-found", `No quote providers configured for ${symbol}`);
+}
+
+// Throws QuoteError describing the most useful failure when no exchange symbol could be priced
+export async function fetchStockPrice(code: string, options: FetchOptions = {}): Promise<CachedQuote> {
+  if (!code) throw new QuoteError("not-found", "Missing stock code");
+
+  const { providers = getProviderChain(), ...overrides } = options;
+  const retry = { ...DEFAULT_RETRY, ...overrides };
+  const key = chainKey(providers);
+  let failure: QuoteError | null = null;
+
+  for (const symbol of exchangeSymbols(code)) {
+    try {
+      return await getCachedQuote(symbol, (s) => fetchFromChain(s, providers, retry), key);
+    } catch (err) {
+      failure = worse(failure, toQuoteError(err));
+    }
+  }
+
+  throw failure;
+}
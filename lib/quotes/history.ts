@@ -0,0 +1,92 @@
+import { LRUCache } from "lru-cache";
+import { envNumber } from "../env";
+import {
+  chainKey,
+  DEFAULT_RETRY,
+  exchangeSymbols,
+  getProviderChain,
+  toQuoteError,
+  worse,
+  type FetchOptions,
+} from "./chain";
+import { DEFAULT_CONCURRENCY, mapConcurrent, type BatchOptions } from "./batch";
+import { withRetry } from "./retry";
+import { QuoteError, type History, type HistoryQuery, type QuoteFailureReason } from "./types";
+
+export type HistoryResult =
+  | { ok: true; history: History }
+  | { ok: false; reason: QuoteFailureReason; status?: number; message: string };
+
+// Closes change at most once a day, so history is cached far longer than quotes
+const cache = new LRUCache<string, History>({
+  max: envNumber("HISTORY_CACHE_MAX", 200) || 1,
+  ttl: envNumber("HISTORY_CACHE_TTL_MS", 15 * 60_000) || 1,
+});
+
+// Takes an exchange symbol as-is (INFY.NS, ^NSEI); throws QuoteError when no provider has history
+export async function fetchHistory(
+  symbol: string,
+  query: HistoryQuery,
+  options: FetchOptions = {}
+): Promise<History> {
+  const { providers = getProviderChain(), ...overrides } = options;
+  const key = `${chainKey(providers)}|${symbol}|${query.range}|${query.interval}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const retry = { ...DEFAULT_RETRY, ...overrides };
+  let failure: QuoteError | null = null;
+
+  for (const provider of providers) {
+    if (!provider.getHistory) continue;
+    try {
+      const history = await withRetry((signal) => provider.getHistory!(symbol, query, { signal }), retry);
+      if (history?.candles.length) {
+        cache.set(key, history);
+        return history;
+      }
+      failure = worse(failure, new QuoteError("not-found", `${provider.name} has no history for ${symbol}`));
+    } catch (err) {
+      failure = worse(failure, toQuoteError(err));
+    }
+  }
+
+  throw failure ?? new QuoteError("not-found", `No price history for ${symbol}`);
+}
+
+// Stock codes are tried on each exchange like fetchStockPrice; exchange and index symbols
+// (INFY.NS, ^NSEI) are used as given
+export async function fetchStockHistory(
+  code: string,
+  query: HistoryQuery,
+  options: FetchOptions = {}
+): Promise<History> {
+  if (!code) throw new QuoteError("not-found", "Missing stock code");
+  const symbols = /[.^]/.test(code) ? [code] : exchangeSymbols(code);
+  let failure: QuoteError | null = null;
+
+  for (const symbol of symbols) {
+    try {
+      return await fetchHistory(symbol, query, options);
+    } catch (err) {
+      failure = worse(failure, toQuoteError(err));
+    }
+  }
+
+  throw failure;
+}
+
+export function fetchStockHistories(
+  codes: string[],
+  query: HistoryQuery,
+  { concurrency = DEFAULT_CONCURRENCY, ...options }: BatchOptions = {}
+): Promise<Map<string, HistoryResult>> {
+  return mapConcurrent(codes, concurrency, async (code): Promise<HistoryResult> => {
+    try {
+      return { ok: true, history: await fetchStockHistory(code, query, options) };
+    } catch (err) {
+      const error = toQuoteError(err);
+      return { ok: false, reason: error.reason, status: error.status, message: error.message };
+    }
+  });
+}
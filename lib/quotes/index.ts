@@ -0,0 +1,43 @@
+export type {
+  Candle,
+  History,
+  HistoryInterval,
+  HistoryQuery,
+  HistoryRange,
+  Quote,
+  QuoteFailureReason,
+  QuoteProvider,
+  QuoteRequestOptions,
+} from "./types";
+export { QuoteError } from "./types";
+export type { CacheStatus, CachedQuote } from "./cache";
+export { clearQuoteCache } from "./cache";
+export {
+  exchangeSymbols,
+  fetchStockPrice,
+  getProviderChain,
+  isValidPrice,
+  type FetchOptions,
+} from "./chain";
+export { fetchStockPrices, mapConcurrent, type BatchOptions, type PriceResult } from "./batch";
+export {
+  closeOn,
+  HISTORY_INTERVALS,
+  HISTORY_RANGES,
+  rangeCovering,
+  rangeStart,
+  resample,
+  sessionDate,
+} from "./candles";
+export {
+  fetchHistory,
+  fetchStockHistories,
+  fetchStockHistory,
+  type HistoryResult,
+} from "./history";
+export {
+  createFixtureProvider,
+  createProvider,
+  createYahooChartProvider,
+  createYahooFinance2Provider,
+} from "./providers";
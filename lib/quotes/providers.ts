@@ -0,0 +1,167 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { rangeStart, resample, sessionDate } from "./candles";
+import { QuoteError, type Candle, type QuoteProvider } from "./types";
+
+interface YahooFinanceResponse {
+  chart?: {
+    result?: Array<{
+      meta?: { regularMarketPrice?: number; chartPreviousClose?: number; regularMarketTime?: number };
+      timestamp?: number[];
+      indicators?: {
+        quote?: Array<Partial<Record<"open" | "high" | "low" | "close" | "volume", (number | null)[]>>>;
+      };
+    }>;
+  };
+}
+
+async function fetchYahooChart(
+  symbol: string,
+  search: string,
+  signal?: AbortSignal
+): Promise<YahooFinanceResponse | null> {
+  let res: Response;
+  try {
+    res = await fetch(`https://query1.finance.yahoo.com/v8/finance/chart/${symbol}${search}`, {
+      headers: { "User-Agent": "Mozilla/5.0" },
+      signal,
+    });
+  } catch (err) {
+    throw new QuoteError("network", err instanceof Error ? err.message : String(err));
+  }
+
+  if (res.status === 404) return null;
+  if (!res.ok) throw new QuoteError("http", `Yahoo chart responded ${res.status}`, res.status);
+  return res.json();
+}
+
+export function createYahooChartProvider(): QuoteProvider {
+  return {
+    name: "yahoo-chart",
+    async getQuote(symbol, options) {
+      const data = await fetchYahooChart(symbol, "", options?.signal);
+      const meta = data?.chart?.result?.[0]?.meta;
+      const price = meta?.regularMarketPrice;
+      return price == null
+        ? null
+        : {
+            symbol,
+            price,
+            previousClose: meta?.chartPreviousClose,
+            marketTime: meta?.regularMarketTime ? new Date(meta.regularMarketTime * 1000).toISOString() : undefined,
+            provider: "yahoo-chart",
+          };
+    },
+
+    async getHistory(symbol, { range, interval }, options) {
+      const data = await fetchYahooChart(
+        encodeURIComponent(symbol),
+        `?range=${range}&interval=${interval}`,
+        options?.signal
+      );
+      const result = data?.chart?.result?.[0];
+      const bars = result?.indicators?.quote?.[0];
+      if (!result?.timestamp || !bars) return null;
+
+      // Yahoo pads holidays and halted sessions with nulls
+      const candles: Candle[] = [];
+      result.timestamp.forEach((t, i) => {
+        const close = bars.close?.[i];
+        if (close == null) return;
+        candles.push({
+          date: sessionDate(t),
+          open: bars.open?.[i] ?? close,
+          high: bars.high?.[i] ?? close,
+          low: bars.low?.[i] ?? close,
+          close,
+          volume: bars.volume?.[i] ?? 0,
+        });
+      });
+      return { symbol, provider: "yahoo-chart", candles };
+    },
+  };
+}
+
+export function createYahooFinance2Provider(): QuoteProvider {
+  return {
+    name: "yahoo-finance2",
+    async getQuote(symbol) {
+      try {
+        // loaded lazily so deployments that don't list this provider never pay for it
+        const { default: yahooFinance } = await import("yahoo-finance2");
+        const result = await yahooFinance.quote(symbol);
+        const price = result?.regularMarketPrice;
+        return price == null
+          ? null
+          : {
+              symbol,
+              price,
+              previousClose: result?.regularMarketPreviousClose,
+              marketTime: result?.regularMarketTime?.toISOString(),
+              provider: "yahoo-finance2",
+            };
+      } catch (err) {
+        throw new QuoteError("network", err instanceof Error ? err.message : String(err));
+      }
+    },
+  };
+}
+
+async function readFixture<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path.resolve(process.cwd(), file), "utf8")) as T;
+  } catch (err) {
+    console.error(`Failed to read quote fixture ${file}:`, err);
+    return null;
+  }
+}
+
+type FixtureCandle = [date: string, open: number, high: number, low: number, close: number, volume: number];
+
+// Quote fixture is a flat JSON map of exchange symbol -> price, e.g. { "INFY.NS": 1520.4 }, or
+// -> { price, previousClose } where a test needs the day's change.
+// History fixture maps symbol -> daily [date, open, high, low, close, volume] rows, oldest first;
+// ranges are measured back from the fixture's last row so it doesn't go stale.
+export function createFixtureProvider(
+  file = process.env.QUOTE_FIXTURE_FILE || "fixtures/quotes.json",
+  historyFile = process.env.HISTORY_FIXTURE_FILE || "fixtures/history.json"
+): QuoteProvider {
+  let prices: Promise<Record<string, number | { price: number; previousClose?: number }> | null> | null = null;
+  let history: Promise<Record<string, FixtureCandle[]> | null> | null = null;
+
+  return {
+    name: "fixture",
+    async getQuote(symbol) {
+      prices ??= readFixture(file);
+      const entry = (await prices)?.[symbol];
+      if (typeof entry === "number") return { symbol, price: entry, provider: "fixture" };
+      return typeof entry?.price === "number"
+        ? { symbol, price: entry.price, previousClose: entry.previousClose, provider: "fixture" }
+        : null;
+    },
+
+    async getHistory(symbol, { range, interval }) {
+      history ??= readFixture(historyFile);
+      const rows = (await history)?.[symbol];
+      if (!rows?.length) return null;
+
+      const from = rangeStart(range, rows[rows.length - 1][0]);
+      const daily = rows
+        .filter(([date]) => !from || date >= from)
+        .map(([date, open, high, low, close, volume]) => ({ date, open, high, low, close, volume }));
+      return { symbol, provider: "fixture", candles: resample(daily, interval) };
+    },
+  };
+}
+
+const factories: Record<string, () => QuoteProvider> = {
+  "yahoo-chart": createYahooChartProvider,
+  "yahoo-finance2": createYahooFinance2Provider,
+  fixture: () => createFixtureProvider(),
+};
+
+export function createProvider(name: string): QuoteProvider {
+  const factory = factories[name];
+  if (!factory) throw new Error(`Unknown quote provider "${name}"`);
+  return factory();
+}
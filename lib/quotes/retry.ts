@@ -0,0 +1,46 @@
+import { QuoteError } from "./types";
+
+export interface RetryOptions {
+  timeoutMs: number;
+  retries: number;
+  backoffMs: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Racing as well as aborting covers providers that ignore the signal
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new QuoteError("timeout", `Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function withRetry<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs, retries, backoffMs }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(run, timeoutMs);
+    } catch (err) {
+      if (!(err instanceof QuoteError) || !err.retryable || attempt >= retries) throw err;
+      // exponential backoff with jitter so parallel workers don't retry in lockstep
+      await sleep(backoffMs * 2 ** attempt * (0.5 + Math.random()));
+    }
+  }
+}
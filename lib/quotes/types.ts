@@ -0,0 +1,63 @@
+export interface Quote {
+  symbol: string;
+  price: number;
+  provider: string;
+  // last session's close, when the provider reports it
+  previousClose?: number;
+  // ISO time of the trade the price comes from, when the provider reports it
+  marketTime?: string;
+}
+
+export interface QuoteRequestOptions {
+  signal?: AbortSignal;
+}
+
+export type HistoryRange = "1mo" | "3mo" | "6mo" | "1y" | "2y" | "5y" | "max";
+export type HistoryInterval = "1d" | "1wk" | "1mo";
+
+export interface HistoryQuery {
+  range: HistoryRange;
+  interval: HistoryInterval;
+}
+
+// One bar per trading day/week/month; date is the IST session date of the bar's start
+export interface Candle {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface History {
+  symbol: string;
+  provider: string;
+  candles: Candle[];
+}
+
+export interface QuoteProvider {
+  name: string;
+  // Resolves null when the provider has no price for the symbol; throws QuoteError on failure
+  getQuote(symbol: string, options?: QuoteRequestOptions): Promise<Quote | null>;
+  // Optional; same null/throw contract as getQuote. Candles are oldest first.
+  getHistory?(symbol: string, query: HistoryQuery, options?: QuoteRequestOptions): Promise<History | null>;
+}
+
+export type QuoteFailureReason = "timeout" | "http" | "network" | "invalid-price" | "not-found";
+
+export class QuoteError extends Error {
+  constructor(
+    readonly reason: QuoteFailureReason,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "QuoteError";
+  }
+
+  // 429 and 5xx are worth retrying; anything else will fail the same way again
+  get retryable(): boolean {
+    return this.reason === "http" && (this.status === 429 || (this.status ?? 0) >= 500);
+  }
+}
@@ -0,0 +1,200 @@
+import type { Lot } from "../ledger/types";
+import {
+  classifyGain,
+  DEFAULT_TAX_CONFIG,
+  estimateTax,
+  type GainBucket,
+  type TaxConfig,
+  type TaxEstimate,
+} from "../tax";
+import type { AssetType } from "../types";
+
+export type TargetBasis = "stock" | "sector";
+
+export interface HoldingForRebalance {
+  code: string;
+  name: string;
+  sector?: string;
+  // mutual funds are bought and redeemed in fractional units; everything else in whole shares
+  assetType?: AssetType;
+  quantity: number;
+  currentPrice: number;
+  // average cost, used for the tax estimate when there are no lots
+  purchasePrice?: number;
+  lots?: Lot[];
+}
+
+export interface RebalanceRequest {
+  holdings: HoldingForRebalance[];
+  basis: TargetBasis;
+  // fractions of the portfolio (holdings plus cash), keyed by code or sector;
+  // holdings with no target are left as they are
+  targets: Record<string, number>;
+  // new money to invest alongside the rebalance
+  cash?: number;
+}
+
+export type TradeAction = "BUY" | "SELL" | "HOLD";
+
+export interface Trade {
+  code: string;
+  name: string;
+  sector?: string;
+  price: number;
+  currentQuantity: number;
+  targetQuantity: number;
+  currentWeight: number;
+  targetWeight: number;
+  action: TradeAction;
+  shares: number;
+  amount: number;
+  // sells only: gains realized by selling the oldest lots first, and the tax on them before the exemption
+  gains?: GainBucket;
+  estimatedTax?: number;
+}
+
+export interface RebalancePlan {
+  asOf: string;
+  basis: TargetBasis;
+  total: number;
+  cash: { injected: number; remaining: number };
+  buys: number;
+  sells: number;
+  trades: Trade[];
+  // all sells together, with the LTCG exemption applied once
+  tax: TaxEstimate;
+  // codes left out because they have no usable price
+  unpriced: string[];
+}
+
+// Targets that cannot be met; the API reports these to the user as a 400
+export class RebalanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RebalanceError";
+  }
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+// fund units are allotted to three decimals
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function affordableQuantity(h: HoldingForRebalance, value: number): number {
+  const quantity = value / h.currentPrice;
+  return h.assetType === "mutual-fund" ? Math.floor(quantity * 1000) / 1000 : Math.floor(quantity);
+}
+
+function sellGains(holding: HoldingForRebalance, shares: number, asOf: string): GainBucket {
+  const bucket: GainBucket = { stcg: 0, ltcg: 0, unknown: 0 };
+  const lots = holding.lots?.length
+    ? holding.lots
+    : [{ quantity: holding.quantity, cost: holding.purchasePrice ?? 0 }];
+
+  let left = shares;
+  for (const lot of lots) {
+    if (left <= 0) break;
+    const take = Math.min(left, lot.quantity);
+    const gain = (holding.currentPrice - lot.cost) * take;
+    const gainClass = classifyGain(lot.date, asOf);
+    if (gainClass === "STCG") bucket.stcg += gain;
+    else if (gainClass === "LTCG") bucket.ltcg += gain;
+    else bucket.unknown += gain;
+    left -= take;
+  }
+  return { stcg: round2(bucket.stcg), ltcg: round2(bucket.ltcg), unknown: round2(bucket.unknown) };
+}
+
+// Each target is converted to whole shares (or, for mutual funds, units to three decimals) by rounding
+// down, so the plan never spends more than the portfolio plus the injected cash; whatever is left
+// over stays as cash.
+export function rebalancePlan(
+  request: RebalanceRequest,
+  config: TaxConfig = DEFAULT_TAX_CONFIG,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): RebalancePlan {
+  const injected = Math.max(0, request.cash ?? 0);
+  const priced = request.holdings.filter((h) => h.currentPrice > 0 && h.quantity >= 0);
+  const unpriced = request.holdings.filter((h) => !priced.includes(h)).map((h) => h.code);
+
+  const valueOf = (h: HoldingForRebalance) => h.quantity * h.currentPrice;
+  const total = priced.reduce((sum, h) => sum + valueOf(h), 0) + injected;
+  if (!total) throw new RebalanceError("Nothing to rebalance: no priced holdings and no cash");
+
+  const weights = Object.values(request.targets);
+  if (weights.some((w) => !Number.isFinite(w) || w < 0)) {
+    throw new RebalanceError("Target weights must be non-negative numbers");
+  }
+
+  // a target is shared among the rows it covers (a sector's holdings, or one stock held in two
+  // accounts) in proportion to their current value
+  const keyOf = (h: HoldingForRebalance) => (request.basis === "stock" ? h.code : h.sector || "Others");
+  const groups = new Map<string, { value: number; count: number }>();
+  for (const h of priced) {
+    const entry = groups.get(keyOf(h)) ?? { value: 0, count: 0 };
+    entry.value += valueOf(h);
+    entry.count++;
+    groups.set(keyOf(h), entry);
+  }
+
+  const targetValue = (h: HoldingForRebalance): number | undefined => {
+    const w = request.targets[keyOf(h)];
+    if (w === undefined) return undefined;
+    const group = groups.get(keyOf(h))!;
+    return w * total * (group.value ? valueOf(h) / group.value : 1 / group.count);
+  };
+
+  const targets = priced.map((h) => targetValue(h) ?? valueOf(h));
+  if (targets.reduce((a, b) => a + b, 0) > total * (1 + 1e-9)) {
+    throw new RebalanceError("Targets add up to more than 100% of the portfolio");
+  }
+
+  let buys = 0;
+  let sells = 0;
+  const sellBucket: GainBucket = { stcg: 0, ltcg: 0, unknown: 0 };
+
+  const trades: Trade[] = priced.map((h, i) => {
+    const untouched = targetValue(h) === undefined;
+    const targetQuantity = untouched ? h.quantity : affordableQuantity(h, targets[i]);
+    const delta = round3(targetQuantity - h.quantity);
+    const amount = round2(Math.abs(delta) * h.currentPrice);
+    const trade: Trade = {
+      code: h.code,
+      name: h.name,
+      sector: h.sector,
+      price: h.currentPrice,
+      currentQuantity: h.quantity,
+      targetQuantity,
+      currentWeight: valueOf(h) / total,
+      targetWeight: targets[i] / total,
+      action: delta > 0 ? "BUY" : delta < 0 ? "SELL" : "HOLD",
+      shares: Math.abs(delta),
+      amount,
+    };
+
+    if (delta > 0) buys += amount;
+    if (delta < 0) {
+      sells += amount;
+      const gains = sellGains(h, -delta, asOf);
+      sellBucket.stcg += gains.stcg;
+      sellBucket.ltcg += gains.ltcg;
+      sellBucket.unknown += gains.unknown;
+      trade.gains = gains;
+      trade.estimatedTax = round2(
+        Math.max(0, gains.stcg) * config.stcgRate + Math.max(0, gains.ltcg) * config.ltcgRate
+      );
+    }
+    return trade;
+  });
+
+  return {
+    asOf,
+    basis: request.basis,
+    total: round2(total),
+    cash: { injected, remaining: round2(injected + sells - buys) },
+    buys: round2(buys),
+    sells: round2(sells),
+    trades,
+    tax: estimateTax(sellBucket, config),
+    unpriced,
+  };
+}
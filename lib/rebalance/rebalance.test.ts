@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { rebalancePlan, type HoldingForRebalance } from "./index";
+
+const equity: HoldingForRebalance = { code: "INFY", name: "Infosys", quantity: 10, currentPrice: 1500 };
+const fund: HoldingForRebalance = {
+  code: "122639",
+  name: "Parag Parikh Flexi Cap Fund",
+  assetType: "mutual-fund",
+  quantity: 100.5,
+  currentPrice: 92.1834,
+};
+
+describe("rebalancePlan quantities", () => {
+  it("buys mutual fund units to three decimals and shares whole", () => {
+    const plan = rebalancePlan(
+      { holdings: [equity, fund], basis: "stock", targets: { INFY: 0.5, "122639": 0.5 }, cash: 20_000 },
+      undefined,
+      "2026-10-19"
+    );
+    const total = 10 * 1500 + 100.5 * 92.1834 + 20_000;
+    const [infy, ppfas] = plan.trades;
+
+    expect(infy.targetQuantity).toBe(Math.floor(total / 2 / 1500));
+    expect(Number.isInteger(infy.shares)).toBe(true);
+
+    expect(ppfas.targetQuantity).toBe(Math.floor(((total / 2) / 92.1834) * 1000) / 1000);
+    expect(ppfas.targetQuantity).not.toBe(Math.floor(ppfas.targetQuantity));
+    expect(ppfas.action).toBe("BUY");
+    expect(ppfas.shares).toBeCloseTo(ppfas.targetQuantity - 100.5, 3);
+    // rounding down never spends more than was available
+    expect(plan.cash.remaining).toBeGreaterThanOrEqual(0);
+  });
+
+  it("redeems fractional units from a fund", () => {
+    const plan = rebalancePlan(
+      { holdings: [equity, fund], basis: "stock", targets: { "122639": 0.1 } },
+      undefined,
+      "2026-10-19"
+    );
+    const ppfas = plan.trades[1];
+    expect(ppfas.action).toBe("SELL");
+    expect(ppfas.shares * 1000).toBeCloseTo(Math.round(ppfas.shares * 1000), 6);
+    expect(ppfas.shares).not.toBe(Math.floor(ppfas.shares));
+  });
+
+  it("keeps ETFs in whole units", () => {
+    const etf: HoldingForRebalance = { ...equity, code: "NIFTYBEES", assetType: "etf", currentPrice: 284.36 };
+    const plan = rebalancePlan({ holdings: [etf], basis: "stock", targets: { NIFTYBEES: 1 }, cash: 1000 });
+    expect(Number.isInteger(plan.trades[0].targetQuantity)).toBe(true);
+  });
+});
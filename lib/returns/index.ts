@@ -0,0 +1,239 @@
+import type { DividendPayment, Lot, RealizedGain } from "../ledger/types";
+
+// Money put in is negative, money taken out (sale proceeds, dividends, current value) positive
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface HoldingForReturns {
+  code: string;
+  name: string;
+  currentPrice?: number;
+  lots?: Lot[];
+}
+
+export interface ValuePoint {
+  date: string;
+  value: number;
+  invested: number;
+  realizedGainLoss: number;
+}
+
+export interface TimeWeightedReturn {
+  from: string;
+  to: string;
+  return: number;
+  // only when the period spans at least a year; annualizing a few weeks is noise
+  annualized: number | null;
+}
+
+export interface HoldingReturns {
+  code: string;
+  name: string;
+  xirr: number | null;
+  cagr: number | null;
+  // cost-weighted average holding period of the open lots
+  years: number | null;
+}
+
+export interface PortfolioReturns {
+  asOf: string;
+  xirr: number | null;
+  cagr: number | null;
+  years: number | null;
+  twr: TimeWeightedReturn | null;
+  // codes with undated lots or no current price; the portfolio XIRR and CAGR are null while any exist
+  incomplete: string[];
+  holdings: HoldingReturns[];
+}
+
+const DAY_MS = 86_400_000;
+const DAYS_PER_YEAR = 365;
+
+export function yearsBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / DAY_MS / DAYS_PER_YEAR;
+}
+
+function npv(rate: number, flows: CashFlow[], start: string): number {
+  return flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, yearsBetween(start, f.date)), 0);
+}
+
+function npvDerivative(rate: number, flows: CashFlow[], start: string): number {
+  return flows.reduce((sum, f) => {
+    const t = yearsBetween(start, f.date);
+    return sum - (t * f.amount) / Math.pow(1 + rate, t + 1);
+  }, 0);
+}
+
+// Annualized internal rate of return for irregularly dated flows (Excel's XIRR, actual/365).
+// Newton's method from 10%, falling back to bisection when it diverges.
+export function xirr(flows: CashFlow[]): number | null {
+  const dated = flows.filter((f) => f.date && f.amount !== 0).sort((a, b) => a.date.localeCompare(b.date));
+  if (!dated.some((f) => f.amount < 0) || !dated.some((f) => f.amount > 0)) return null;
+
+  const start = dated[0].date;
+  if (dated[dated.length - 1].date === start) return null;
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate, dated, start);
+    const slope = npvDerivative(rate, dated, start);
+    if (!slope) break;
+
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low, dated, start);
+  if (lowValue * npv(high, dated, start) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid, dated, start);
+    if (Math.abs(midValue) < 1e-7 || high - low < 1e-10) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export function cagr(start: number, end: number, years: number): number | null {
+  if (start <= 0 || end < 0 || years <= 0) return null;
+  return Math.pow(end / start, 1 / years) - 1;
+}
+
+// Net money added between two points: the change in invested capital less the change in realized
+// P&L (a sale withdraws its cost plus its gain). Treated as arriving at the end of the period.
+export function netFlow(prev: ValuePoint, cur: ValuePoint): number {
+  return cur.invested - prev.invested - (cur.realizedGainLoss - prev.realizedGainLoss);
+}
+
+// Return of each period between consecutive points (sorted by date), excluding that period's flow
+export function periodReturns(points: ValuePoint[]): { date: string; return: number }[] {
+  const returns: { date: string; return: number }[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const cur = points[i];
+    if (prev.value <= 0) continue;
+    returns.push({ date: cur.date, return: (cur.value - netFlow(prev, cur)) / prev.value - 1 });
+  }
+  return returns;
+}
+
+export function timeWeightedReturn(points: ValuePoint[]): TimeWeightedReturn | null {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return null;
+
+  const growth = periodReturns(sorted).reduce((g, p) => g * (1 + p.return), 1);
+  const from = sorted[0].date;
+  const to = sorted[sorted.length - 1].date;
+  const years = yearsBetween(from, to);
+
+  return {
+    from,
+    to,
+    return: growth - 1,
+    annualized: years >= 1 && growth > 0 ? Math.pow(growth, 1 / years) - 1 : null,
+  };
+}
+
+function holdingFlows(
+  h: HoldingForReturns,
+  realized: RealizedGain[],
+  dividends: DividendPayment[],
+  asOf: string
+): CashFlow[] | null {
+  const lots = h.lots ?? [];
+  const sold = realized.filter((g) => g.code === h.code);
+  if (lots.some((l) => !l.date) || sold.some((g) => !g.buyDate)) return null;
+  if (lots.length && !h.currentPrice) return null;
+
+  const flows: CashFlow[] = lots.map((l) => ({ date: l.date!, amount: -l.quantity * l.cost }));
+  for (const g of sold) {
+    flows.push({ date: g.buyDate!, amount: -g.quantity * g.buyPrice });
+    flows.push({ date: g.sellDate, amount: g.quantity * g.sellPrice });
+  }
+  for (const d of dividends) {
+    if (d.code === h.code && d.date) flows.push({ date: d.date, amount: d.amount });
+  }
+
+  const quantity = lots.reduce((sum, l) => sum + l.quantity, 0);
+  if (quantity) flows.push({ date: asOf, amount: quantity * h.currentPrice! });
+  return flows;
+}
+
+// Cost-weighted age of the open lots, in years
+function averageYearsHeld(lots: Lot[], asOf: string): number | null {
+  const cost = lots.reduce((sum, l) => sum + l.quantity * l.cost, 0);
+  if (!cost || lots.some((l) => !l.date)) return null;
+  return lots.reduce((sum, l) => sum + l.quantity * l.cost * yearsBetween(l.date!, asOf), 0) / cost;
+}
+
+export function portfolioReturns(
+  holdings: HoldingForReturns[],
+  realized: RealizedGain[],
+  dividends: DividendPayment[] = [],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): PortfolioReturns {
+  const allFlows: CashFlow[] = [];
+  const incomplete: string[] = [];
+  let invested = 0;
+  let value = 0;
+
+  const holdingReturns = holdings.map((h) => {
+    const lots = h.lots ?? [];
+    const flows = holdingFlows(h, realized, dividends, asOf);
+    if (flows) allFlows.push(...flows);
+    else incomplete.push(h.code);
+
+    const cost = lots.reduce((sum, l) => sum + l.quantity * l.cost, 0);
+    const current = lots.reduce((sum, l) => sum + l.quantity, 0) * (h.currentPrice ?? 0);
+    invested += cost;
+    value += current;
+
+    const years = averageYearsHeld(lots, asOf);
+    return {
+      code: h.code,
+      name: h.name,
+      xirr: flows ? xirr(flows) : null,
+      cagr: years == null || !h.currentPrice ? null : cagr(cost, current, years),
+      years,
+    };
+  });
+
+  // sales of and dividends from codes no longer held still count towards the portfolio's money-weighted return
+  const held = new Set(holdings.map((h) => h.code));
+  for (const g of realized) {
+    if (held.has(g.code)) continue;
+    if (!g.buyDate) {
+      if (!incomplete.includes(g.code)) incomplete.push(g.code);
+      continue;
+    }
+    allFlows.push({ date: g.buyDate, amount: -g.quantity * g.buyPrice });
+    allFlows.push({ date: g.sellDate, amount: g.quantity * g.sellPrice });
+  }
+  for (const d of dividends) {
+    if (!held.has(d.code) && d.date) allFlows.push({ date: d.date, amount: d.amount });
+  }
+
+  const years = averageYearsHeld(holdings.flatMap((h) => h.lots ?? []), asOf);
+
+  return {
+    asOf,
+    xirr: incomplete.length ? null : xirr(allFlows),
+    cagr: incomplete.length || years == null ? null : cagr(invested, value, years),
+    years: incomplete.length ? null : years,
+    twr: null,
+    incomplete,
+    holdings: holdingReturns,
+  };
+}
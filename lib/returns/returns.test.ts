@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { cagr, timeWeightedReturn, xirr } from "./index";
+
+describe("xirr", () => {
+  it("matches Excel's documented XIRR example", () => {
+    const rate = xirr([
+      { date: "2008-01-01", amount: -10000 },
+      { date: "2008-03-01", amount: 2750 },
+      { date: "2008-10-30", amount: 4250 },
+      { date: "2009-02-15", amount: 3250 },
+      { date: "2009-04-01", amount: 2750 },
+    ]);
+    expect(rate).toBeCloseTo(0.373362535, 6);
+  });
+
+  it("is null when the flows never change sign", () => {
+    expect(
+      xirr([
+        { date: "2024-01-01", amount: -1000 },
+        { date: "2024-06-01", amount: -500 },
+      ])
+    ).toBeNull();
+    expect(
+      xirr([
+        { date: "2024-01-01", amount: 1000 },
+        { date: "2024-06-01", amount: 500 },
+      ])
+    ).toBeNull();
+  });
+
+  it("is null when every flow falls on the same day", () => {
+    expect(
+      xirr([
+        { date: "2024-01-01", amount: -1000 },
+        { date: "2024-01-01", amount: 1100 },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("timeWeightedReturn", () => {
+  it("excludes a mid-period deposit and withdrawal from the return", () => {
+    const twr = timeWeightedReturn([
+      { date: "2025-01-01", value: 1000, invested: 1000, realizedGainLoss: 0 },
+      // 500 deposited: (1600 - 500) / 1000 = +10%
+      { date: "2025-04-01", value: 1600, invested: 1500, realizedGainLoss: 0 },
+      // a sale withdraws 300 of cost and 100 of gain: (1400 + 400) / 1600 = +12.5%
+      { date: "2025-07-01", value: 1400, invested: 1200, realizedGainLoss: 100 },
+    ]);
+    expect(twr).not.toBeNull();
+    expect(twr!.return).toBeCloseTo(1.1 * 1.125 - 1, 10);
+    expect(twr!.from).toBe("2025-01-01");
+    expect(twr!.to).toBe("2025-07-01");
+    // under a year is not annualized
+    expect(twr!.annualized).toBeNull();
+  });
+
+  it("needs at least two points", () => {
+    expect(timeWeightedReturn([{ date: "2025-01-01", value: 1000, invested: 1000, realizedGainLoss: 0 }])).toBeNull();
+  });
+});
+
+describe("cagr", () => {
+  it("compounds over whole and fractional years", () => {
+    expect(cagr(1000, 2000, 2)).toBeCloseTo(Math.SQRT2 - 1, 10);
+    expect(cagr(1000, 1100, 0.5)).toBeCloseTo(0.21, 10);
+  });
+
+  it("is null at zero years or a zero start value", () => {
+    expect(cagr(1000, 2000, 0)).toBeNull();
+    expect(cagr(0, 2000, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { envNumber } from "../env";
+import type { Candle } from "../quotes";
+
+export interface RiskConfig {
+  // annual, as a fraction, e.g. 0.065 for 6.5%
+  riskFreeRate: number;
+}
+
+// roughly the 91-day T-bill yield
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  riskFreeRate: envNumber("RISK_FREE_RATE", 0.065),
+};
+
+export const TRADING_DAYS = 252;
+
+export interface RiskMetrics {
+  // annualized, as fractions
+  volatility: number | null;
+  beta: number | null;
+  // largest peak-to-trough fall, as a positive fraction
+  maxDrawdown: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  // daily returns the figures are based on
+  observations: number;
+}
+
+export interface HoldingRisk extends RiskMetrics {
+  code: string;
+  name: string;
+}
+
+export interface PriceSeries {
+  code: string;
+  name: string;
+  quantity: number;
+  candles: Candle[];
+}
+
+export interface RiskReport {
+  from: string | null;
+  to: string | null;
+  config: RiskConfig;
+  portfolio: RiskMetrics;
+  holdings: HoldingRisk[];
+  // Pearson correlation of daily returns, in the order of `codes`
+  correlation: { codes: string[]; matrix: (number | null)[][] };
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+function stdev(xs: number[]): number | null {
+  if (xs.length < 2) return null;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+export function dailyReturns(values: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1] > 0) returns.push(values[i] / values[i - 1] - 1);
+  }
+  return returns;
+}
+
+export function annualizedVolatility(returns: number[]): number | null {
+  const sd = stdev(returns);
+  return sd == null ? null : sd * Math.sqrt(TRADING_DAYS);
+}
+
+export function covariance(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 2) return null;
+  const ma = mean(a);
+  const mb = mean(b);
+  return a.reduce((sum, x, i) => sum + (x - ma) * (b[i] - mb), 0) / (a.length - 1);
+}
+
+// Sensitivity of `asset` returns to `market` returns over the same periods; null under three periods
+export function beta(asset: number[], market: number[]): number | null {
+  if (asset.length < 3) return null;
+  const cov = covariance(asset, market);
+  const variance = covariance(market, market);
+  return cov == null || !variance ? null : cov / variance;
+}
+
+export function correlation(a: number[], b: number[]): number | null {
+  const cov = covariance(a, b);
+  const sa = stdev(a);
+  const sb = stdev(b);
+  return cov == null || !sa || !sb ? null : cov / (sa * sb);
+}
+
+export function maxDrawdown(values: number[]): number | null {
+  if (values.length < 2) return null;
+  let peak = values[0];
+  let worst = 0;
+  for (const v of values) {
+    peak = Math.max(peak, v);
+    if (peak > 0) worst = Math.max(worst, 1 - v / peak);
+  }
+  return worst;
+}
+
+export function sharpeRatio(returns: number[], riskFreeRate: number): number | null {
+  const volatility = annualizedVolatility(returns);
+  if (!volatility) return null;
+  return (mean(returns) * TRADING_DAYS - riskFreeRate) / volatility;
+}
+
+// Like Sharpe, but only returns below the daily risk-free rate count as risk
+export function sortinoRatio(returns: number[], riskFreeRate: number): number | null {
+  if (returns.length < 2) return null;
+  const target = riskFreeRate / TRADING_DAYS;
+  const downside = Math.sqrt(
+    returns.reduce((sum, r) => sum + Math.min(0, r - target) ** 2, 0) / returns.length
+  ) * Math.sqrt(TRADING_DAYS);
+  if (!downside) return null;
+  return (mean(returns) * TRADING_DAYS - riskFreeRate) / downside;
+}
+
+// Closes on the given dates, in order; dates missing from the series are skipped
+function closesOn(candles: Candle[], dates: string[]): number[] {
+  const byDate = new Map(candles.map((c) => [c.date, c.close]));
+  return dates.flatMap((d) => (byDate.has(d) ? [byDate.get(d)!] : []));
+}
+
+function metrics(candles: Candle[], benchmark: Candle[] | null, config: RiskConfig): RiskMetrics {
+  const closes = candles.map((c) => c.close);
+  const returns = dailyReturns(closes);
+
+  let b: number | null = null;
+  if (benchmark) {
+    const indexDates = new Set(benchmark.map((c) => c.date));
+    const dates = candles.map((c) => c.date).filter((d) => indexDates.has(d));
+    b = beta(dailyReturns(closesOn(candles, dates)), dailyReturns(closesOn(benchmark, dates)));
+  }
+
+  return {
+    volatility: annualizedVolatility(returns),
+    beta: b,
+    maxDrawdown: maxDrawdown(closes),
+    sharpe: sharpeRatio(returns, config.riskFreeRate),
+    sortino: sortinoRatio(returns, config.riskFreeRate),
+    observations: returns.length,
+  };
+}
+
+// Each holding is measured over its own history. The portfolio is valued at today's quantities on
+// the dates every holding traded, i.e. as if the current portfolio had been held throughout.
+export function riskReport(
+  series: PriceSeries[],
+  benchmark: Candle[] | null,
+  config: RiskConfig = DEFAULT_RISK_CONFIG
+): RiskReport {
+  const withData = series.filter((s) => s.candles.length > 1);
+
+  let dates = withData[0]?.candles.map((c) => c.date) ?? [];
+  for (const s of withData.slice(1)) {
+    const own = new Set(s.candles.map((c) => c.date));
+    dates = dates.filter((d) => own.has(d));
+  }
+
+  const aligned = withData.map((s) => closesOn(s.candles, dates));
+  const portfolioCandles: Candle[] = dates.map((date, i) => {
+    const value = withData.reduce((sum, s, j) => sum + s.quantity * aligned[j][i], 0);
+    return { date, open: value, high: value, low: value, close: value, volume: 0 };
+  });
+
+  const returns = aligned.map(dailyReturns);
+  const matrix = returns.map((a, i) => returns.map((b, j) => (i === j ? 1 : correlation(a, b))));
+
+  return {
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+    config,
+    portfolio: metrics(portfolioCandles, benchmark, config),
+    holdings: withData.map((s) => ({ code: s.code, name: s.name, ...metrics(s.candles, benchmark, config) })),
+    correlation: { codes: withData.map((s) => s.code), matrix },
+  };
+}
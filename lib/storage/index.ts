@@ -0,0 +1,33 @@
+import path from "path";
+import { createJsonFileStore } from "./jsonFile";
+import { createJsonSnapshotStore } from "./snapshots";
+import type { PortfolioStore, SnapshotStore } from "./types";
+
+export type {
+  HoldingSnapshot,
+  Portfolio,
+  PortfolioInput,
+  PortfolioStore,
+  PortfolioSummary,
+  Snapshot,
+  SnapshotStore,
+} from "./types";
+export { createJsonDocument, type JsonDocument } from "./jsonDocument";
+export { createJsonFileStore } from "./jsonFile";
+export { createJsonSnapshotStore, SNAPSHOT_RANGES, snapshotRangeStart } from "./snapshots";
+export { readPortfolioInput } from "./validate";
+
+export const DATA_DIR = path.resolve(process.cwd(), process.env.PORTFOLIO_DATA_DIR || ".data");
+
+let store: PortfolioStore | null = null;
+let snapshotStore: SnapshotStore | null = null;
+
+export function getPortfolioStore(): PortfolioStore {
+  store ??= createJsonFileStore(path.join(DATA_DIR, "portfolios.json"));
+  return store;
+}
+
+export function getSnapshotStore(): SnapshotStore {
+  snapshotStore ??= createJsonSnapshotStore(path.join(DATA_DIR, "snapshots.json"));
+  return snapshotStore;
+}
@@ -0,0 +1,46 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+export interface JsonDocument<T> {
+  read(): Promise<T>;
+  // read-modify-write, serialized so concurrent requests don't drop each other's changes
+  mutate<R>(change: (contents: T) => R): Promise<R>;
+}
+
+export function createJsonDocument<T>(file: string, empty: () => T): JsonDocument<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return empty();
+      throw err;
+    }
+  };
+
+  const save = async (contents: T) => {
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(contents, null, 2));
+    await rename(tmp, file);
+  };
+
+  return {
+    async read() {
+      await queue;
+      return load();
+    },
+
+    mutate(change) {
+      const next = queue.then(async () => {
+        const contents = await load();
+        const result = change(contents);
+        await save(contents);
+        return result;
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { randomUUID } from "crypto";
+import { createJsonDocument } from "./jsonDocument";
+import type { Portfolio, PortfolioInput, PortfolioStore, PortfolioSummary } from "./types";
+
+function summarize(p: Portfolio): PortfolioSummary {
+  return {
+    id: p.id,
+    name: p.name,
+    owner: p.owner,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+    holdingsCount: p.holdings.length,
+    transactionsCount: p.transactions.length,
+  };
+}
+
+// Whole-file JSON store: fine for a single server process and a few hundred portfolios
+export function createJsonFileStore(file: string): PortfolioStore {
+  const doc = createJsonDocument(file, () => ({ portfolios: [] as Portfolio[] }));
+
+  return {
+    async list() {
+      const { portfolios } = await doc.read();
+      return portfolios.map(summarize);
+    },
+
+    async get(id) {
+      const { portfolios } = await doc.read();
+      return portfolios.find((p) => p.id === id) ?? null;
+    },
+
+    create(input: PortfolioInput) {
+      return doc.mutate((contents) => {
+        const now = new Date().toISOString();
+        const portfolio: Portfolio = { id: randomUUID(), createdAt: now, updatedAt: now, ...input };
+        contents.portfolios.push(portfolio);
+        return portfolio;
+      });
+    },
+
+    update(id, patch) {
+      return doc.mutate((contents) => {
+        const index = contents.portfolios.findIndex((p) => p.id === id);
+        if (index === -1) return null;
+
+        const updated = {
+          ...contents.portfolios[index],
+          ...patch,
+          id,
+          updatedAt: new Date().toISOString(),
+        };
+        contents.portfolios[index] = updated;
+        return updated;
+      });
+    },
+
+    delete(id) {
+      return doc.mutate((contents) => {
+        const before = contents.portfolios.length;
+        contents.portfolios = contents.portfolios.filter((p) => p.id !== id);
+        return contents.portfolios.length < before;
+      });
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { createJsonDocument } from "./jsonDocument";
+import type { Snapshot, SnapshotStore } from "./types";
+
+export function createJsonSnapshotStore(file: string): SnapshotStore {
+  const doc = createJsonDocument(file, () => ({ snapshots: [] as Snapshot[] }));
+
+  return {
+    record(snapshot) {
+      return doc.mutate((contents) => {
+        contents.snapshots = contents.snapshots.filter(
+          (s) => !(s.portfolioId === snapshot.portfolioId && s.date === snapshot.date)
+        );
+        contents.snapshots.push(snapshot);
+        return snapshot;
+      });
+    },
+
+    async list(portfolioId, from) {
+      const { snapshots } = await doc.read();
+      return snapshots
+        .filter((s) => s.portfolioId === portfolioId && (!from || s.date >= from))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    async deleteForPortfolio(portfolioId) {
+      await doc.mutate((contents) => {
+        contents.snapshots = contents.snapshots.filter((s) => s.portfolioId !== portfolioId);
+      });
+    },
+  };
+}
+
+const RANGE_MONTHS: Record<string, number | null> = { "1M": 1, "3M": 3, "1Y": 12, ALL: null };
+export const SNAPSHOT_RANGES = Object.keys(RANGE_MONTHS);
+
+// First snapshot date shown for a chart range; undefined means all of them
+export function snapshotRangeStart(range: string): string | undefined {
+  const months = RANGE_MONTHS[range];
+  if (months == null) return undefined;
+  const start = new Date();
+  start.setMonth(start.getMonth() - months);
+  return start.toISOString().slice(0, 10);
+}
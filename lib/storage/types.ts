@@ -0,0 +1,59 @@
+import type { Transaction } from "../ledger/types";
+import type { StockData } from "../types";
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  // whose account this is ("Self", "Spouse", "HUF"), for the consolidated view
+  owner?: string;
+  createdAt: string;
+  updatedAt: string;
+  // holdings as imported (opening balances), before the ledger is applied or prices fetched
+  holdings: StockData[];
+  transactions: Transaction[];
+  // code -> sector chosen by the user, taking precedence over the sheet and the instrument master
+  sectorOverrides?: Record<string, string>;
+}
+
+export type PortfolioSummary = Pick<Portfolio, "id" | "name" | "owner" | "createdAt" | "updatedAt"> & {
+  holdingsCount: number;
+  transactionsCount: number;
+};
+
+export type PortfolioInput = Pick<Portfolio, "name" | "owner" | "holdings" | "transactions" | "sectorOverrides">;
+
+export interface PortfolioStore {
+  list(): Promise<PortfolioSummary[]>;
+  get(id: string): Promise<Portfolio | null>;
+  create(input: PortfolioInput): Promise<Portfolio>;
+  // resolves null when no portfolio has this id
+  update(id: string, patch: Partial<PortfolioInput>): Promise<Portfolio | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface HoldingSnapshot {
+  code: string;
+  quantity: number;
+  price: number;
+  invested: number;
+  value: number;
+}
+
+export interface Snapshot {
+  portfolioId: string;
+  // one snapshot per portfolio per day; a later run on the same day replaces it
+  date: string;
+  takenAt: string;
+  invested: number;
+  value: number;
+  gainLoss: number;
+  realizedGainLoss: number;
+  holdings: HoldingSnapshot[];
+}
+
+export interface SnapshotStore {
+  record(snapshot: Snapshot): Promise<Snapshot>;
+  // oldest first, optionally only from the given ISO date onwards
+  list(portfolioId: string, from?: string): Promise<Snapshot[]>;
+  deleteForPortfolio(portfolioId: string): Promise<void>;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { readPortfolioInput } from "./validate";
+
+const holding = { code: "INFY", name: "Infosys", quantity: 10, purchasePrice: 1400, investment: 14000 };
+const buy = { date: "2024-01-02", code: "INFY", type: "BUY", quantity: 10, price: 1400 };
+
+const withTransaction = (tx: Record<string, unknown>) =>
+  readPortfolioInput({ name: "Main", holdings: [holding], transactions: [tx] }, false);
+
+describe("readPortfolioInput transactions", () => {
+  it("accepts well-formed transactions, including an undated buy", () => {
+    const result = readPortfolioInput(
+      {
+        name: "Main",
+        holdings: [holding],
+        transactions: [
+          buy,
+          { code: "INFY", type: "BUY", quantity: 5, price: 1500 },
+          { date: "2024-06-01", code: "INFY", type: "BONUS", quantity: 0, price: 0, ratio: [1, 1] },
+          { date: "2024-07-01", code: "INFY", type: "DIVIDEND", quantity: 0, price: 0, amount: 200 },
+        ],
+      },
+      false
+    );
+    expect(result.ok).toBe(true);
+  });
+
+  it.each([
+    ["an unknown type", { ...buy, type: "FOO" }],
+    ["a non-numeric quantity", { ...buy, quantity: "ten" }],
+    ["a missing quantity", { ...buy, quantity: undefined }],
+    ["a non-numeric price", { ...buy, price: "1400" }],
+    ["a malformed date", { ...buy, date: "02/01/2024" }],
+    ["an undated sale", { code: "INFY", type: "SELL", quantity: 5, price: 1600 }],
+    ["an undated split", { code: "INFY", type: "SPLIT", quantity: 0, price: 0, ratio: [1, 2] }],
+    ["a malformed ratio", { ...buy, type: "SPLIT", quantity: 0, price: 0, ratio: ["1", 2] }],
+    ["a non-numeric amount", { ...buy, type: "DIVIDEND", amount: "200" }],
+    ["a missing code", { ...buy, code: undefined }],
+  ])("rejects %s", (_label, tx) => {
+    const result = withTransaction(tx);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(/^transactions must be/);
+  });
+
+  it("rejects a non-array", () => {
+    expect(readPortfolioInput({ name: "Main", holdings: [], transactions: {} }, false).ok).toBe(false);
+  });
+});
+
+describe("readPortfolioInput holdings", () => {
+  it.each([
+    ["quantity", { ...holding, quantity: "10" }],
+    ["purchasePrice", { ...holding, purchasePrice: undefined }],
+    ["investment", { ...holding, investment: null }],
+  ])("rejects a holding without a numeric %s", (_field, h) => {
+    expect(readPortfolioInput({ name: "Main", holdings: [h] }, false).ok).toBe(false);
+  });
+});
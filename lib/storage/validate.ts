@@ -0,0 +1,85 @@
+import type { TransactionType } from "../ledger/types";
+import type { PortfolioInput } from "./types";
+
+type Result<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+// Analysis, snapshots and exports all do arithmetic on these, so a missing one would surface as NaN
+const isHolding = (h: unknown) =>
+  isObject(h) &&
+  typeof h.code === "string" &&
+  isFiniteNumber(h.quantity) &&
+  isFiniteNumber(h.purchasePrice) &&
+  isFiniteNumber(h.investment);
+
+const TRANSACTION_TYPES: TransactionType[] = ["BUY", "SELL", "SPLIT", "BONUS", "DIVIDEND", "RIGHTS"];
+const isDate = (v: unknown) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v));
+
+// Only a BUY can be undated (an opening balance); sales and corporate actions are replayed by date
+const isTransaction = (t: unknown) =>
+  isObject(t) &&
+  typeof t.code === "string" &&
+  TRANSACTION_TYPES.includes(t.type as TransactionType) &&
+  isFiniteNumber(t.quantity) &&
+  isFiniteNumber(t.price) &&
+  (isDate(t.date) || (t.type === "BUY" && (t.date === undefined || t.date === null))) &&
+  (t.ratio === undefined || (Array.isArray(t.ratio) && t.ratio.length === 2 && t.ratio.every(isFiniteNumber))) &&
+  (t.amount === undefined || isFiniteNumber(t.amount));
+
+// Checks the JSON body of a create/update request; `partial` allows any field to be left out
+export function readPortfolioInput(body: unknown, partial: boolean): Result<Partial<PortfolioInput>> {
+  if (!isObject(body)) return { ok: false, error: "Request body must be a JSON object" };
+
+  const input: Partial<PortfolioInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return { ok: false, error: "name must be a non-empty string" };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.owner !== undefined) {
+    if (body.owner !== null && typeof body.owner !== "string") {
+      return { ok: false, error: "owner must be a string" };
+    }
+    // an empty owner clears the tag
+    input.owner = body.owner?.trim() || undefined;
+  }
+
+  if (body.holdings !== undefined || !partial) {
+    const holdings = body.holdings ?? [];
+    if (!Array.isArray(holdings) || !holdings.every(isHolding)) {
+      return { ok: false, error: "holdings must be an array of { code, quantity, purchasePrice, investment, ... }" };
+    }
+    input.holdings = holdings as PortfolioInput["holdings"];
+  }
+
+  if (body.transactions !== undefined || !partial) {
+    const transactions = body.transactions ?? [];
+    if (!Array.isArray(transactions) || !transactions.every(isTransaction)) {
+      return {
+        ok: false,
+        error: `transactions must be an array of { date, code, type, quantity, price, ... } with type one of ${TRANSACTION_TYPES.join(", ")}`,
+      };
+    }
+    input.transactions = transactions as PortfolioInput["transactions"];
+  }
+
+  if (body.sectorOverrides !== undefined) {
+    const overrides = body.sectorOverrides;
+    if (
+      !isObject(overrides) ||
+      !Object.values(overrides).every((sector) => typeof sector === "string" && sector.trim())
+    ) {
+      return { ok: false, error: "sectorOverrides must map stock codes to sector names" };
+    }
+    input.sectorOverrides = Object.fromEntries(
+      Object.entries(overrides as Record<string, string>).map(([code, sector]) => [code, sector.trim()])
+    );
+  }
+
+  return { ok: true, value: input };
+}
@@ -0,0 +1,200 @@
+import { envNumber } from "../env";
+import type { Lot, RealizedGain } from "../ledger/types";
+
+export type GainClass = "STCG" | "LTCG" | "UNKNOWN";
+
+export interface TaxConfig {
+  // rates as fractions, e.g. 0.2 for 20%
+  stcgRate: number;
+  ltcgRate: number;
+  // LTCG below this amount per financial year is not taxed
+  ltcgExemption: number;
+}
+
+// Listed equity rates for transfers on or after 23 July 2024 (Finance (No. 2) Act, 2024)
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  stcgRate: envNumber("TAX_STCG_RATE", 0.2),
+  ltcgRate: envNumber("TAX_LTCG_RATE", 0.125),
+  ltcgExemption: envNumber("TAX_LTCG_EXEMPTION", 125_000),
+};
+
+// Fills anything missing or invalid in a client-supplied config from the defaults
+export function readTaxConfig(config?: Partial<TaxConfig> | null): TaxConfig {
+  config ??= {};
+  const pick = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+  return {
+    stcgRate: pick(config.stcgRate, DEFAULT_TAX_CONFIG.stcgRate),
+    ltcgRate: pick(config.ltcgRate, DEFAULT_TAX_CONFIG.ltcgRate),
+    ltcgExemption: pick(config.ltcgExemption, DEFAULT_TAX_CONFIG.ltcgExemption),
+  };
+}
+
+export interface GainBucket {
+  stcg: number;
+  ltcg: number;
+  unknown: number;
+}
+
+export interface TaxEstimate extends GainBucket {
+  total: number;
+  // LTCG after short-term losses were set off, before the exemption
+  taxableLtcg: number;
+  exemptionUsed: number;
+  estimatedTax: number;
+}
+
+export interface FinancialYearBreakdown extends TaxEstimate {
+  year: string;
+  gains: (RealizedGain & { class: GainClass })[];
+}
+
+export interface HoldingForTax {
+  code: string;
+  name: string;
+  currentPrice?: number;
+  lots?: Lot[];
+}
+
+export interface UnrealizedGain {
+  code: string;
+  name: string;
+  buyDate?: string;
+  quantity: number;
+  buyPrice: number;
+  currentPrice: number;
+  gain: number;
+  class: GainClass;
+}
+
+export interface CapitalGainsReport {
+  asOf: string;
+  config: TaxConfig;
+  realized: TaxEstimate;
+  unrealized: TaxEstimate & { gains: UnrealizedGain[] };
+  years: FinancialYearBreakdown[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function addMonths(date: string, months: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  // clamp 31 Jan + 1 month to the last day of February rather than rolling into March
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// Listed equity is long-term when held for more than 12 months
+export function classifyGain(buyDate: string | undefined, sellDate: string): GainClass {
+  if (!buyDate || !sellDate) return "UNKNOWN";
+  return sellDate > addMonths(buyDate, 12) ? "LTCG" : "STCG";
+}
+
+// Indian financial years run April to March: 2024-05-10 falls in FY2024-25
+export function financialYear(date: string): string {
+  const [y, m] = date.split("-").map(Number);
+  const start = m >= 4 ? y : y - 1;
+  return `FY${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+// Short-term losses may be set off against long-term gains, not the other way round.
+// Unclassified gains are reported but left out of the estimate.
+export function estimateTax(bucket: GainBucket, config: TaxConfig): TaxEstimate {
+  let stcg = bucket.stcg;
+  let ltcg = bucket.ltcg;
+  if (stcg < 0 && ltcg > 0) {
+    const setOff = Math.min(-stcg, ltcg);
+    stcg += setOff;
+    ltcg -= setOff;
+  }
+
+  const taxableLtcg = Math.max(0, ltcg);
+  const exemptionUsed = Math.min(taxableLtcg, config.ltcgExemption);
+  const estimatedTax =
+    Math.max(0, stcg) * config.stcgRate + (taxableLtcg - exemptionUsed) * config.ltcgRate;
+
+  return {
+    stcg: round2(bucket.stcg),
+    ltcg: round2(bucket.ltcg),
+    unknown: round2(bucket.unknown),
+    total: round2(bucket.stcg + bucket.ltcg + bucket.unknown),
+    taxableLtcg: round2(taxableLtcg),
+    exemptionUsed: round2(exemptionUsed),
+    estimatedTax: round2(estimatedTax),
+  };
+}
+
+function addToBucket(bucket: GainBucket, gainClass: GainClass, gain: number) {
+  if (gainClass === "STCG") bucket.stcg += gain;
+  else if (gainClass === "LTCG") bucket.ltcg += gain;
+  else bucket.unknown += gain;
+}
+
+export function unrealizedGains(holdings: HoldingForTax[], asOf: string): UnrealizedGain[] {
+  const gains: UnrealizedGain[] = [];
+  for (const h of holdings) {
+    if (!h.currentPrice || !h.lots) continue;
+    for (const lot of h.lots) {
+      gains.push({
+        code: h.code,
+        name: h.name,
+        buyDate: lot.date,
+        quantity: lot.quantity,
+        buyPrice: lot.cost,
+        currentPrice: h.currentPrice,
+        gain: round2((h.currentPrice - lot.cost) * lot.quantity),
+        class: classifyGain(lot.date, asOf),
+      });
+    }
+  }
+  return gains;
+}
+
+export function capitalGainsReport(
+  realized: RealizedGain[],
+  holdings: HoldingForTax[],
+  config: TaxConfig = DEFAULT_TAX_CONFIG,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): CapitalGainsReport {
+  const byYear = new Map<string, { bucket: GainBucket; gains: FinancialYearBreakdown["gains"] }>();
+  const realizedBucket: GainBucket = { stcg: 0, ltcg: 0, unknown: 0 };
+
+  for (const gain of realized) {
+    const gainClass = classifyGain(gain.buyDate, gain.sellDate);
+    const year = gain.sellDate ? financialYear(gain.sellDate) : "Undated";
+
+    let entry = byYear.get(year);
+    if (!entry) {
+      entry = { bucket: { stcg: 0, ltcg: 0, unknown: 0 }, gains: [] };
+      byYear.set(year, entry);
+    }
+    entry.gains.push({ ...gain, class: gainClass });
+    addToBucket(entry.bucket, gainClass, gain.gain);
+    addToBucket(realizedBucket, gainClass, gain.gain);
+  }
+
+  // the exemption and set-off apply per financial year, so the realized total sums the yearly estimates
+  const years = Array.from(byYear.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([year, { bucket, gains }]) => ({ year, ...estimateTax(bucket, config), gains }));
+
+  const realizedEstimate = estimateTax(realizedBucket, config);
+  realizedEstimate.taxableLtcg = round2(years.reduce((sum, y) => sum + y.taxableLtcg, 0));
+  realizedEstimate.exemptionUsed = round2(years.reduce((sum, y) => sum + y.exemptionUsed, 0));
+  realizedEstimate.estimatedTax = round2(years.reduce((sum, y) => sum + y.estimatedTax, 0));
+
+  const open = unrealizedGains(holdings, asOf);
+  const unrealizedBucket: GainBucket = { stcg: 0, ltcg: 0, unknown: 0 };
+  for (const g of open) addToBucket(unrealizedBucket, g.class, g.gain);
+
+  return {
+    asOf,
+    config,
+    realized: realizedEstimate,
+    unrealized: { ...estimateTax(unrealizedBucket, config), gains: open },
+    years,
+  };
+}
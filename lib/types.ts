@@ -0,0 +1,60 @@
+import type { Candidate, MarketCapBucket, ResolutionKind } from "./instruments";
+import type { Lot } from "./ledger/types";
+import type { QuoteSession } from "./market";
+import type { CacheStatus, QuoteFailureReason } from "./quotes";
+
+// Listed equities and ETFs are priced on the exchange, mutual funds by their AMFI NAV
+export type AssetType = "equity" | "etf" | "mutual-fund";
+
+export interface StockData {
+  name: string;
+  code: string;
+  isin?: string;
+  // from the sheet when it says, otherwise inferred during analysis
+  assetType?: AssetType;
+  // the AMFI scheme a mutual fund is priced by, and its SEBI category ("Equity Scheme - Large Cap Fund")
+  schemeCode?: string;
+  fundCategory?: string;
+  // exchange ticker the code resolved to (INFY for 500209); priced as-is when set
+  ticker?: string;
+  // how the ticker was found; unpriced rows without an exact match carry ranked candidates
+  resolution?: { matchedBy: ResolutionKind | null; candidates?: Candidate[] };
+  purchasePrice: number;
+  quantity: number;
+  investment: number;
+  portfolioPercent: string;
+  cmp: number;
+  presentValue: number;
+  gainLoss: number;
+  gainLossPercent: string;
+  marketCap: string;
+  peRatio: string;
+  // ISO date of the opening lot, when the holdings sheet has one
+  purchaseDate?: string;
+  // open FIFO lots and realized figures derived from the transaction ledger
+  lots?: Lot[];
+  realizedGainLoss?: number;
+  dividends?: number;
+  // dividends received in the trailing year, for the yield figures
+  dividendsTtm?: number;
+  currentPrice?: number;
+  // last session's close from the quote provider, for the day's change
+  previousClose?: number;
+  // whether the price is from today's open session, the last close, or older
+  quoteSession?: QuoteSession;
+  priceStatus?: "updated" | "unavailable";
+  priceSource?: string;
+  cacheStatus?: CacheStatus;
+  cacheAgeMs?: number;
+  priceError?: { reason: QuoteFailureReason; status?: number; message: string };
+  updatedPresentValue?: number;
+  updatedGainLoss?: number;
+  updatedGainLossPercent?: string;
+  sector?: string;
+  // set when the user picked the sector for this holding
+  sectorOverridden?: boolean;
+  industry?: string;
+  marketCapBucket?: MarketCapBucket;
+  // "Equity", "ETF", or the fund's class ("Debt Fund"), for the asset-class breakdown
+  assetClass?: string;
+}
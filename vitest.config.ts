@@ -0,0 +1,9 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // the same "@/*" alias as tsconfig.json, for route handlers under test
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+});